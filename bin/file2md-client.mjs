@@ -0,0 +1,10 @@
+#!/usr/bin/env node
+// Runs the TypeScript CLI (src/cli/file2md-client.ts) through tsx, so it shares the API
+// client and schemas with the web interface. tsconfig.json maps the @/ imports, wherever
+// the command is run from. tsx is a runtime dependency, so installs without dev
+// dependencies keep working.
+import { fileURLToPath } from 'url';
+
+process.env.TSX_TSCONFIG_PATH ??= fileURLToPath(new URL('../tsconfig.json', import.meta.url));
+const { tsImport } = await import('tsx/esm/api');
+await tsImport('../src/cli/file2md-client.ts', import.meta.url);
@@ -1,7 +1,18 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  // The conversion workers are started with child_process.fork(), so file tracing cannot see
+  // them; the built-in converters' worker loads the TypeScript sources through tsx, and the
+  // file2md worker loads pdf-lib to blank out unselected pages
+  outputFileTracingIncludes: {
+    '/api/**/*': [
+      './src/workers/**/*',
+      './src/lib/**/*',
+      './tsconfig.json',
+      './node_modules/tsx/**/*',
+      './node_modules/{pdf-lib,@pdf-lib,pako}/**/*',
+    ],
+  },
 };
 
 export default nextConfig;
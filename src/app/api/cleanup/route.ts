@@ -1,77 +1,24 @@
-import { NextResponse } from 'next/server';
-import { readdir, unlink, stat, rm } from 'fs/promises';
-import { existsSync } from 'fs';
-import path from 'path';
-
-// Clean up files older than 1 hour
-const CLEANUP_AGE_MS = 60 * 60 * 1000; // 1 hour
+import { NextRequest, NextResponse } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { withErrors } from '@/lib/errors';
+import { sweepExpiredArtifacts } from '@/lib/retention';
 
 export const runtime = 'nodejs';
 
-export async function POST() {
-  try {
-    const downloadsDir = process.env.VERCEL ? '/tmp' : path.join(process.cwd(), 'public', 'downloads');
-    const tempDir = process.env.VERCEL ? '/tmp' : path.join(process.cwd(), 'temp');
-    
-    let cleaned = 0;
-
-    // Clean downloads directory
-    if (existsSync(downloadsDir)) {
-      cleaned += await cleanDirectory(downloadsDir);
-    }
-
-    // Clean temp directory
-    if (existsSync(tempDir)) {
-      cleaned += await cleanDirectory(tempDir);
-    }
-
-    return NextResponse.json({
-      success: true,
-      message: `Cleaned up ${cleaned} old files`,
-    });
-
-  } catch (error) {
-    // Cleanup error occurred
-    return NextResponse.json(
-      { 
-        success: false, 
-        error: error instanceof Error ? error.message : 'Unknown error' 
-      },
-      { status: 500 }
-    );
+// Expired artifacts are also swept on a schedule (see instrumentation.ts); this runs a sweep on demand.
+// Pass ?dryRun=true (or {"dryRun": true}) to list what would be removed without deleting anything.
+export const POST = withErrors(withAuth('admin', async (request: NextRequest) => {
+  let dryRun = request.nextUrl.searchParams.get('dryRun') === 'true';
+  if (!dryRun && request.headers.get('content-type')?.includes('application/json')) {
+    const body = await request.json().catch(() => null);
+    dryRun = body?.dryRun === true;
   }
-}
-
-async function cleanDirectory(dirPath: string): Promise<number> {
-  let cleaned = 0;
-  
-  try {
-    const files = await readdir(dirPath);
-    const now = Date.now();
 
-    for (const file of files) {
-      const filePath = path.join(dirPath, file);
-      const stats = await stat(filePath);
-      
-      // Check if file is older than cleanup age
-      if (now - stats.mtime.getTime() > CLEANUP_AGE_MS) {
-        try {
-          await unlink(filePath);
-          cleaned++;
-        } catch (eUnlink) {
-          // If unlink fails (e.g., directory), try rm recursively
-          try {
-            await rm(filePath, { recursive: true, force: true });
-            cleaned++;
-          } catch (eRm) {
-            // Failed to remove file
-          }
-        }
-      }
-    }
-  } catch (error) {
-    // Error cleaning directory
-  }
+  const report = await sweepExpiredArtifacts({ dryRun });
 
-  return cleaned;
-}
\ No newline at end of file
+  return NextResponse.json({
+    success: true,
+    message: `${dryRun ? 'Would remove' : 'Removed'} ${report.removed.length} files (${report.freedBytes} bytes)`,
+    ...report,
+  });
+}));
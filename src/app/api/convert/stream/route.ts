@@ -0,0 +1,89 @@
+import { NextRequest } from 'next/server';
+import { withAuth } from '@/lib/auth';
+import { parseConvertOptions, readFormData, runConversion, validateUpload } from '@/lib/convert';
+import { ApiError, errorBody, getRequestId, toApiError, withErrors } from '@/lib/errors';
+import { chargeDocumentBytes, withRateLimit } from '@/lib/ratelimit';
+import { fetchRemoteFile, readSourceUrl } from '@/lib/remote';
+import type { ConversionResponse } from '@/lib/schemas';
+import { notifyCompletion, notifyFailure, readCallback } from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+
+// Comment lines keep proxies from closing the stream while file2md is busy
+const KEEPALIVE_INTERVAL_MS = 15 * 1000;
+
+// Same input as POST /api/convert (single file or url), answered as Server-Sent Events:
+//   event: stage   -> { stage, message, bytes?, imageCount? }
+//   event: result  -> the usual conversion JSON
+//   event: error   -> { success: false, error, code, requestId }
+export const POST = withErrors(withAuth('convert', withRateLimit(async (request: NextRequest) => {
+  // Problems with the request itself are answered as ordinary JSON errors before the stream starts
+  const formData = await readFormData(request);
+  const upload = formData.get('file');
+  const sourceUrl = readSourceUrl(formData);
+  if (upload instanceof File && sourceUrl) {
+    throw new ApiError('INVALID_REQUEST', 'Send either file or url, not both');
+  }
+  if (!(upload instanceof File) && !sourceUrl) {
+    throw new ApiError('INVALID_REQUEST', 'No file or url provided');
+  }
+  const options = parseConvertOptions(formData);
+  const callback = readCallback(request, formData);
+  const file = upload instanceof File ? upload : await fetchRemoteFile(sourceUrl as string, request.signal);
+  await chargeDocumentBytes(request, file.size);
+  await validateUpload(file);
+
+  const requestId = getRequestId(request);
+  const encoder = new TextEncoder();
+  let keepalive: ReturnType<typeof setInterval> | undefined;
+  // Stops the worker when the client disconnects or stops reading the stream
+  const cancelled = new AbortController();
+  const signal = AbortSignal.any([request.signal, cancelled.signal]);
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      // The client may go away mid-conversion; writes after that are dropped
+      const write = (chunk: string) => {
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // Stream already closed
+        }
+      };
+      const send = (event: string, data: unknown) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+      };
+
+      keepalive = setInterval(() => write(': keepalive\n\n'), KEEPALIVE_INTERVAL_MS);
+
+      try {
+        const result = await runConversion(file, options, progress => send('stage', progress), signal);
+        const webhookUrl = callback ? notifyCompletion(callback, { name: file.name, result }) : undefined;
+        send('result', { success: true, ...result, webhookUrl } satisfies ConversionResponse);
+      } catch (conversionError) {
+        const apiError = callback ? notifyFailure(callback, file.name, conversionError) : toApiError(conversionError, requestId);
+        send('error', errorBody(apiError, requestId));
+      } finally {
+        clearInterval(keepalive);
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed
+        }
+      }
+    },
+    cancel() {
+      clearInterval(keepalive);
+      cancelled.abort();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    },
+  });
+})));
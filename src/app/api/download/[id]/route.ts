@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server';
+import { ApiError, withErrors } from '@/lib/errors';
+import {
+  consumeToken,
+  contentDisposition,
+  contentTypeFor,
+  isArtifactName,
+  verifyDownloadToken,
+} from '@/lib/downloads';
+import { artifactKey, getStorage } from '@/lib/storage';
+
+export const runtime = 'nodejs';
+
+// Stream a stored conversion artifact; requires the signed token from the convert response
+export const GET = withErrors(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+
+  if (!isArtifactName(id)) {
+    throw new ApiError('NOT_FOUND', 'Download not found');
+  }
+
+  const token = request.nextUrl.searchParams.get('token');
+  const check = verifyDownloadToken(id, token);
+  if (!check.ok) {
+    throw new ApiError(check.code, check.error);
+  }
+  // Spent before the first await, or parallel requests would all pass the check above
+  if (check.singleUse && token && !consumeToken(token, check.expiresAt)) {
+    throw new ApiError('EXPIRED', 'Download link has already been used');
+  }
+
+  const artifact = await getStorage().stream(artifactKey(id));
+  if (!artifact) {
+    throw new ApiError('NOT_FOUND', 'Download not found or expired');
+  }
+
+  return new Response(artifact.body, {
+    headers: {
+      'Content-Type': contentTypeFor(id),
+      'Content-Length': String(artifact.size),
+      'Content-Disposition': contentDisposition(id),
+      'Cache-Control': 'private, no-store',
+      'X-Content-Type-Options': 'nosniff',
+    },
+  });
+});
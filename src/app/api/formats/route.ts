@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { MAX_SIZE } from '@/lib/convert';
+import { acceptMap, listFormats } from '@/lib/converters';
+import { withErrors } from '@/lib/errors';
+import type { FormatsResponse } from '@/lib/schemas';
+
+export const runtime = 'nodejs';
+
+// The input formats the registered converters take. Public, so the web interface can build
+// its file picker before it has a session.
+export const GET = withErrors(async () => {
+  return NextResponse.json({
+    success: true,
+    formats: listFormats(),
+    // Ready to pass to react-dropzone's `accept`
+    accept: acceptMap(),
+    maxFileBytes: MAX_SIZE,
+  } satisfies FormatsResponse, {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+});
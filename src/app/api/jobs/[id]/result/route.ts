@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPrincipal, withAuth } from '@/lib/auth';
+import { ApiError, withErrors } from '@/lib/errors';
+import { getJobQueue, summarizeJob } from '@/lib/jobs';
+import type { ConversionResponse } from '@/lib/schemas';
+
+export const runtime = 'nodejs';
+
+// Same body as a synchronous POST /api/convert once the job has succeeded
+export const GET = withErrors(withAuth('convert', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+  const job = getJobQueue().get(id, getPrincipal(request));
+
+  if (!job) {
+    throw new ApiError('NOT_FOUND', 'Job not found');
+  }
+
+  // A failed job answers with the error its conversion would have returned
+  if (job.status === 'failed') {
+    throw new ApiError(job.errorCode ?? 'INTERNAL', job.error ?? 'Conversion failed', {
+      details: { job: summarizeJob(job) },
+    });
+  }
+
+  if (job.status !== 'succeeded' || !job.result) {
+    throw new ApiError('NOT_READY', `Job is ${job.status}`, { details: { job: summarizeJob(job) } });
+  }
+
+  return NextResponse.json({ success: true, ...job.result } satisfies ConversionResponse);
+}));
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPrincipal, withAuth } from '@/lib/auth';
+import { ApiError, withErrors } from '@/lib/errors';
+import { getJobQueue, summarizeJob } from '@/lib/jobs';
+import type { JobResponse } from '@/lib/schemas';
+
+export const runtime = 'nodejs';
+
+export const GET = withErrors(withAuth('convert', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+  const job = getJobQueue().get(id, getPrincipal(request));
+
+  if (!job) {
+    throw new ApiError('NOT_FOUND', 'Job not found');
+  }
+
+  return NextResponse.json({ success: true, job: summarizeJob(job) } satisfies JobResponse);
+}));
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getPrincipal, withAuth } from '@/lib/auth';
+import { parseConvertOptions, readFormData, validateUpload } from '@/lib/convert';
+import { ApiError, getRequestId, withErrors } from '@/lib/errors';
+import { getJobQueue, summarizeJob } from '@/lib/jobs';
+import { chargeDocumentBytes, withRateLimit } from '@/lib/ratelimit';
+import type { JobSubmittedResponse } from '@/lib/schemas';
+import { readCallback } from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+
+// Submit a file for background conversion; poll GET /api/jobs/[id] for progress
+export const POST = withErrors(withAuth('convert', withRateLimit(async (request: NextRequest) => {
+  const formData = await readFormData(request);
+  const file = formData.get('file');
+
+  if (!(file instanceof File)) {
+    throw new ApiError('INVALID_REQUEST', 'No file provided');
+  }
+
+  const options = parseConvertOptions(formData);
+  const callback = readCallback(request, formData);
+  await validateUpload(file);
+  await chargeDocumentBytes(request, file.size);
+  const job = await getJobQueue().submit(file, options, getPrincipal(request), getRequestId(request), callback);
+
+  return NextResponse.json(
+    { success: true, jobId: job.id, job: summarizeJob(job), statusUrl: `/api/jobs/${job.id}` } satisfies JobSubmittedResponse,
+    { status: 202, headers: { Location: `/api/jobs/${job.id}` } }
+  );
+})));
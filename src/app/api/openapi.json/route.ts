@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { withErrors } from '@/lib/errors';
+import { getOpenApiDocument } from '@/lib/openapi';
+
+export const runtime = 'nodejs';
+
+// OpenAPI 3.1 description of the API, generated from src/lib/schemas.ts. Public, like the docs.
+export const GET = withErrors(async () => {
+  return NextResponse.json(getOpenApiDocument(), {
+    headers: { 'Cache-Control': 'public, max-age=300' },
+  });
+});
@@ -0,0 +1,41 @@
+import { NextRequest } from 'next/server';
+import { isPreviewId, verifyPreviewToken } from '@/lib/downloads';
+import { ApiError, withErrors } from '@/lib/errors';
+import { imageContentType } from '@/lib/images';
+import { getStorage, imageKey } from '@/lib/storage';
+
+export const runtime = 'nodejs';
+
+// Serve an extracted image for the web preview; requires the signed token from the preview markdown
+export const GET = withErrors(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; name: string }> }
+) => {
+  const { id, name } = await params;
+
+  if (!isPreviewId(id) || !isPreviewId(name)) {
+    throw new ApiError('NOT_FOUND', 'Image not found');
+  }
+
+  const check = verifyPreviewToken(id, request.nextUrl.searchParams.get('token'));
+  if (!check.ok) {
+    throw new ApiError(check.code, check.error);
+  }
+
+  const image = await getStorage().stream(imageKey(id, name));
+  if (!image) {
+    throw new ApiError('NOT_FOUND', 'Image not found or expired');
+  }
+
+  const maxAge = Math.max(0, check.expiresAt - Math.floor(Date.now() / 1000));
+  return new Response(image.body, {
+    headers: {
+      'Content-Type': imageContentType(name),
+      'Content-Length': String(image.size),
+      'Cache-Control': `private, max-age=${maxAge}`,
+      'X-Content-Type-Options': 'nosniff',
+      // SVGs opened directly must not run scripts
+      'Content-Security-Policy': "default-src 'none'; style-src 'unsafe-inline'; sandbox",
+    },
+  });
+});
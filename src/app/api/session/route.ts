@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, createSessionToken, isAuthEnabled, isSameOrigin } from '@/lib/auth';
+import { ApiError, withErrors } from '@/lib/errors';
+import type { SessionResponse } from '@/lib/schemas';
+
+export const runtime = 'nodejs';
+
+// Called by the browser UI so it can convert without an API key when API_KEYS is set.
+// The cookie only grants the convert scope and is only issued to same-origin requests.
+export const POST = withErrors(async (request: NextRequest) => {
+  if (!isAuthEnabled()) {
+    return NextResponse.json({ success: true, authRequired: false } satisfies SessionResponse);
+  }
+
+  if (!isSameOrigin(request)) {
+    throw new ApiError('FORBIDDEN', 'Sessions are only issued to the web interface');
+  }
+
+  const { token, maxAge } = createSessionToken();
+  const response = NextResponse.json({ success: true, authRequired: true } satisfies SessionResponse);
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'strict',
+    secure: request.nextUrl.protocol === 'https:',
+    path: '/api',
+    maxAge,
+  });
+  return response;
+});
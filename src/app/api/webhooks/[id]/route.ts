@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authorize, getApiKeyName, getPrincipal, withAuth } from '@/lib/auth';
+import { ApiError, withErrors } from '@/lib/errors';
+import { getJobQueue } from '@/lib/jobs';
+import type { WebhookResponse } from '@/lib/schemas';
+import { getWebhookDispatcher, redactDelivery } from '@/lib/webhooks';
+
+export const runtime = 'nodejs';
+
+// Delivery log of a conversion's callback: every attempt, and whether one got through.
+// The ID is a job ID or the conversion ID from webhookUrl. Only the API key that asked for
+// the callback and admin keys see its full URL; everyone else gets just its origin.
+export const GET = withErrors(withAuth('convert', async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) => {
+  const { id } = await params;
+  const tracked = getWebhookDispatcher().get(id);
+
+  if (!tracked) {
+    // Jobs with a callback get their delivery as soon as they finish
+    if (getJobQueue().get(id, getPrincipal(request))?.webhookUrl) {
+      throw new ApiError('NOT_READY', 'The conversion has not finished yet');
+    }
+    throw new ApiError('NOT_FOUND', 'No callback was sent for this conversion');
+  }
+
+  const owner = tracked.owner !== undefined && tracked.owner === getApiKeyName(request);
+  const delivery = owner || authorize(request, 'admin').ok ? tracked.delivery : redactDelivery(tracked.delivery);
+  return NextResponse.json({ success: true, delivery } satisfies WebhookResponse);
+}));
@@ -1,115 +1,273 @@
 'use client';
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { useDropzone } from 'react-dropzone';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 import { ErrorBoundary } from '../components/ErrorBoundary';
+import { ConversionApiError, ConversionClient, ConversionOptions } from '@/lib/client';
+import type {
+  BatchConversionResponse,
+  ConversionProgress,
+  ConversionResponse,
+  ConversionStage,
+  ErrorBody,
+  ErrorCode,
+  FormatInfo,
+  FormatsResponse,
+  ImageFormat,
+  OutputFormat,
+  PartKind,
+} from '@/lib/schemas';
 
-interface ConversionResult {
-  success: boolean;
-  filename: string;
-  hasImages: boolean;
-  downloadUrl: string;
-  error?: string;
-  markdown?: string;
-  imageCount?: number;
-  chartCount?: number;
-  metadata?: Record<string, unknown>;
-  stats?: {
-    inputBytes?: number;
-    markdownBytes?: number;
-    compressionRatio?: number | null;
-    imageCount?: number;
-    chartCount?: number;
-    processingTimeMs?: number;
+// A finished batch, or one where every file failed and there is nothing to download
+type BatchOutcome = Pick<BatchConversionResponse, 'succeeded' | 'failed' | 'results'>
+  & Partial<Pick<BatchConversionResponse, 'filename' | 'downloadUrl'>>;
+
+// Same-origin requests; the session cookie stands in for an API key
+const client = new ConversionClient();
+
+// Keep in sync with MAX_BATCH_FILES in the convert route
+const MAX_FILES = 20;
+
+interface ProgressStep extends ConversionProgress {
+  at: number;
+}
+
+const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = {
+  markdown: 'Markdown',
+  html: 'HTML',
+  text: 'Plain text',
+  mdast: 'mdast JSON',
+};
+
+const PART_PLACEHOLDERS: Record<PartKind, string> = {
+  pages: 'Pages, e.g. 1-5,9',
+  slides: 'Slides, e.g. 2-4',
+  sheets: 'Sheets, e.g. Summary,2',
+};
+
+// Icons for the built-in formats; formats registered later get the generic one
+const FORMAT_ICONS: Record<string, string> = {
+  pdf: '📄',
+  docx: '📝',
+  xlsx: '📊',
+  pptx: '📽️',
+  hwp: '🇰🇷',
+  hwpx: '📋',
+  odt: '📝',
+  html: '🌐',
+  txt: '🗒️',
+  csv: '📊',
+  tsv: '📊',
+};
+
+// The range field for the selected file names, or null when they are of different kinds.
+// Goes by extension; the server checks the real format.
+function partKindOf(names: string[], formats: FormatInfo[]): PartKind | null {
+  const kindOf = (name: string) => {
+    const extension = `.${name.split('.').pop()?.toLowerCase() ?? ''}`;
+    return formats.find(format => format.extensions.includes(extension))?.parts;
   };
+  const kinds = new Set(names.map(kindOf));
+  const [kind] = Array.from(kinds);
+  return kinds.size === 1 && kind ? kind : null;
+}
+
+const PROGRESS_STAGES: { stage: ConversionStage; label: string }[] = [
+  { stage: 'received', label: 'Upload received' },
+  { stage: 'parsing', label: 'Parsing document' },
+  { stage: 'images', label: 'Images extracted' },
+  { stage: 'zip', label: 'ZIP built' },
+  { stage: 'done', label: 'Done' },
+];
+
+// What to tell the user for each error code; codes without an entry show the server's message
+const ERROR_MESSAGES: Partial<Record<ErrorCode, string>> = {
+  UNSUPPORTED_TYPE: 'This file type is not supported. Upload one of the listed formats, with an extension that matches its contents.',
+  TOO_LARGE: 'The file is too large. Files can be up to 50MB.',
+  ENCRYPTED_DOCUMENT: 'The document is password protected. Remove the password in the original application and upload it again.',
+  CORRUPT_FILE: 'The document could not be read. It may be damaged or incomplete; try saving it again from the original application.',
+  TIMEOUT: 'The conversion took too long. Try a smaller document or convert fewer pages.',
+  MEMORY_LIMIT: 'The document needed too much memory to convert. Try a smaller document or convert fewer pages.',
+  CANCELLED: 'The conversion was cancelled.',
+  RATE_LIMITED: 'Too many conversions in a short time. Wait a moment and try again.',
+  QUEUE_FULL: 'The server is busy right now. Try again in a minute.',
+  UNAUTHORIZED: 'Your session has expired. Reload the page and try again.',
+  URL_NOT_ALLOWED: 'That URL points to a private network address the server is not allowed to fetch.',
+  INTERNAL: 'Something went wrong on the server.',
+};
+
+// User-facing text for an error body; unexpected failures carry the request ID for support
+function describeError(body: Pick<Partial<ErrorBody>, 'error' | 'code' | 'requestId'>, fallback = 'Conversion failed'): string {
+  const message = (body.code && ERROR_MESSAGES[body.code]) || body.error || fallback;
+  return body.code === 'INTERNAL' && body.requestId ? `${message} (reference: ${body.requestId})` : message;
+}
+
+// The file name a URL points at, for guessing its kind before it is fetched
+function urlFileName(url: string): string {
+  try {
+    return new URL(url).pathname.split('/').pop() ?? '';
+  } catch {
+    return '';
+  }
+}
+
+// When the server requires API keys, this page converts through a same-origin session cookie
+async function ensureSession(): Promise<void> {
+  try {
+    await client.createSession();
+  } catch {
+    // Conversion will report the auth error if the session was needed
+  }
 }
 
 export default function Home() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [isConverting, setIsConverting] = useState(false);
-  const [result, setResult] = useState<ConversionResult | null>(null);
+  const [result, setResult] = useState<ConversionResponse | null>(null);
+  const [batchResult, setBatchResult] = useState<BatchOutcome | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [extractImages, setExtractImages] = useState(true);
+  const [outputFormat, setOutputFormat] = useState<OutputFormat>('markdown');
+  const [frontMatter, setFrontMatter] = useState(false);
+  const [optimizeImages, setOptimizeImages] = useState(false);
+  const [imageFormat, setImageFormat] = useState<ImageFormat>('webp');
+  const [embedImages, setEmbedImages] = useState(false);
+  const [chunks, setChunks] = useState(false);
+  const [chunkSize, setChunkSize] = useState(512);
+  const [partRange, setPartRange] = useState('');
+  // Converted instead of an upload when no files are selected
+  const [sourceUrl, setSourceUrl] = useState('');
+  const fromUrl = selectedFiles.length === 0 && sourceUrl.trim() !== '';
+  const canConvert = selectedFiles.length > 0 || fromUrl;
+  // Supported input formats, from the server's converter registry
+  const [formats, setFormats] = useState<FormatsResponse | null>(null);
+  const partKind = partKindOf(fromUrl ? [urlFileName(sourceUrl.trim())] : selectedFiles.map(file => file.name), formats?.formats ?? []);
+  const [progress, setProgress] = useState<ProgressStep[]>([]);
+  const [startedAt, setStartedAt] = useState<number | null>(null);
+  const [now, setNow] = useState(() => Date.now());
+  // Aborting the request makes the server stop the conversion worker
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Tick while converting so the elapsed time keeps moving between stage events
+  useEffect(() => {
+    if (!isConverting) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [isConverting]);
+
+  useEffect(() => {
+    client.getFormats()
+      .then(setFormats)
+      .catch(() => {
+        // The picker then accepts any file and the server does the checking
+      });
+  }, []);
 
   const onDrop = useCallback((acceptedFiles: File[]) => {
     if (acceptedFiles.length > 0) {
-      setSelectedFile(acceptedFiles[0]);
+      setSelectedFiles(acceptedFiles.slice(0, MAX_FILES));
       setResult(null);
+      setBatchResult(null);
       setError(null);
     }
   }, []);
 
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
-    accept: {
-      'application/pdf': ['.pdf'],
-      'application/vnd.openxmlformats-officedocument.wordprocessingml.document': ['.docx'],
-      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
-      'application/vnd.openxmlformats-officedocument.presentationml.presentation': ['.pptx'],
-      'application/x-hwp': ['.hwp'],
-      'application/x-hwpx': ['.hwpx'],
-      'application/x-cfb': ['.hwp'] // CFB files with .hwp extension
-    },
-    multiple: false,
-    maxSize: 50 * 1024 * 1024 // 50MB limit
+    accept: formats?.accept,
+    multiple: true,
+    maxFiles: MAX_FILES,
+    maxSize: formats?.maxFileBytes ?? 50 * 1024 * 1024
   });
+  const supportedExtensions = formats?.formats
+    .flatMap(format => format.extensions.slice(0, 1))
+    .map(extension => extension.slice(1).toUpperCase())
+    .join(', ');
 
   const handleConvert = async () => {
-    if (!selectedFile) return;
+    if (!canConvert) return;
 
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsConverting(true);
     setError(null);
     setResult(null);
+    setBatchResult(null);
+    setProgress([]);
+    setStartedAt(Date.now());
+    setNow(Date.now());
 
-    const formData = new FormData();
-    formData.append('file', selectedFile);
-    formData.append('preserveLayout', String(true));
-    formData.append('extractImages', String(extractImages));
-    formData.append('extractCharts', String(true));
+    // Single files stream their progress; batches wait for one combined response
+    const isBatch = selectedFiles.length > 1;
 
-    try {
-      const response = await fetch('/api/convert', {
-        method: 'POST',
-        body: formData,
-      });
+    const options: ConversionOptions = {
+      preserveLayout: true,
+      extractImages,
+      extractCharts: true,
+      outputFormat,
+      frontMatter,
+      optimizeImages,
+      imageFormat,
+      embedImages,
+      chunks,
+      chunkSize,
+    };
+    if (partKind && partRange.trim()) {
+      options[partKind] = partRange.trim();
+    }
 
-      if (!response.ok) {
-        // Try to surface server-provided error
-        let serverMsg = response.statusText || 'Request failed';
-        try {
-          const maybeJson = await response.json();
-          if (maybeJson && typeof maybeJson.error === 'string') {
-            serverMsg = maybeJson.error;
-          }
-        } catch {
-          // ignore JSON parse failure
-        }
-        throw new Error(serverMsg);
+    try {
+      await ensureSession();
+      if (isBatch) {
+        setBatchResult(await client.convertBatch(selectedFiles, options, { signal: controller.signal }));
+      } else {
+        const source = fromUrl ? { url: sourceUrl.trim() } : selectedFiles[0];
+        setResult(await client.convertStream(source, options, {
+          signal: controller.signal,
+          onStage: step => setProgress(prev => [...prev, { ...step, at: Date.now() }]),
+        }));
       }
-
-      const data: ConversionResult = await response.json();
-      setResult(data);
     } catch (err) {
-      const msg = err instanceof Error ? err.message : 'Unknown error occurred';
-      setError(msg);
+      if (controller.signal.aborted) {
+        setError(ERROR_MESSAGES.CANCELLED ?? 'Conversion cancelled');
+      } else if (err instanceof ConversionApiError) {
+        if (err.batch) {
+          // Every file in the batch failed; keep the per-file reasons visible
+          setBatchResult(err.batch);
+        }
+        setError(describeError({ error: err.message, code: err.code, requestId: err.requestId }));
+      } else {
+        const msg = err instanceof Error ? err.message : 'Unknown error occurred';
+        setError(msg);
+      }
     } finally {
+      abortRef.current = null;
       setIsConverting(false);
     }
   };
 
+  const handleCancel = () => {
+    abortRef.current?.abort();
+  };
+
   const handleDownload = () => {
-    if (result?.downloadUrl) {
+    const target = result ?? batchResult;
+    if (target?.downloadUrl) {
       const link = document.createElement('a');
-      link.href = result.downloadUrl;
-      link.download = result.filename;
+      link.href = target.downloadUrl;
+      link.download = target.filename ?? '';
       document.body.appendChild(link);
       link.click();
       document.body.removeChild(link);
     }
   };
 
+  const resultFormat: OutputFormat = result?.outputFormat ?? 'markdown';
+  // Images or chunks turn the download into a ZIP
+  const resultIsZip = result?.filename.endsWith('.zip') ?? false;
+
   const prettyBytes = (n?: number) => {
     if (!n && n !== 0) return '-';
     if (n < 1024) return `${n} B`;
@@ -118,11 +276,92 @@ export default function Home() {
   };
 
   const resetForm = () => {
-    setSelectedFile(null);
+    setSelectedFiles([]);
+    setSourceUrl('');
     setResult(null);
+    setBatchResult(null);
     setError(null);
+    setProgress([]);
+    setStartedAt(null);
   };
 
+  const progressTimeline = (
+    <div className="mt-6 border rounded-md p-4">
+      <div className="flex items-center justify-between mb-3">
+        <h3 className="text-sm font-semibold text-gray-900">Conversion Progress</h3>
+        {startedAt && (
+          <span className="text-xs text-gray-500">
+            Elapsed: {Math.max(0, Math.round(((isConverting ? now : progress[progress.length - 1]?.at ?? now) - startedAt) / 1000))}s
+          </span>
+        )}
+      </div>
+      <ol className="space-y-2 text-sm">
+        {PROGRESS_STAGES.map(({ stage, label }, index) => {
+          const step = progress.find(p => p.stage === stage);
+          const finished = progress.some(p => p.stage === 'done');
+          const lastReached = Math.max(-1, ...progress.map(p => PROGRESS_STAGES.findIndex(s => s.stage === p.stage)));
+          const isActive = !step && isConverting && index === lastReached + 1;
+          const skipped = !step && (finished || index < lastReached);
+
+          return (
+            <li key={stage} className="flex items-start gap-3">
+              <span
+                className={`mt-1 h-3 w-3 flex-shrink-0 rounded-full ${
+                  step ? 'bg-green-500' : isActive ? 'bg-blue-500 animate-pulse' : 'bg-gray-300'
+                }`}
+              />
+              <div className="flex-1">
+                <p className={step ? 'text-gray-900' : isActive ? 'text-blue-700' : 'text-gray-400'}>
+                  {label}
+                  {skipped && ' (skipped)'}
+                </p>
+                {step && (
+                  <p className="text-xs text-gray-500">
+                    {step.message}
+                    {step.bytes !== undefined && ` · ${prettyBytes(step.bytes)}`}
+                    {startedAt && ` · ${((step.at - startedAt) / 1000).toFixed(1)}s`}
+                  </p>
+                )}
+              </div>
+            </li>
+          );
+        })}
+      </ol>
+    </div>
+  );
+
+  const batchStatusFor = (index: number): { label: string; className: string; detail?: string } => {
+    const entry = batchResult?.results[index];
+    if (entry) {
+      return entry.success
+        ? { label: 'Done', className: 'text-green-600', detail: `${prettyBytes(entry.stats?.markdownBytes)} markdown, ${entry.imageCount ?? 0} images` }
+        : { label: 'Failed', className: 'text-red-600', detail: describeError(entry) };
+    }
+    if (isConverting) return { label: 'Converting...', className: 'text-blue-600' };
+    if (error) return { label: 'Not converted', className: 'text-gray-400' };
+    return { label: 'Queued', className: 'text-gray-500' };
+  };
+
+  const fileStatusList = (
+    <ul className="mt-6 divide-y border rounded-md text-sm">
+      {selectedFiles.map((file, index) => {
+        const status = batchStatusFor(index);
+        return (
+          <li key={`${file.name}-${index}`} className="flex items-start justify-between gap-4 p-3">
+            <div className="min-w-0">
+              <p className="font-medium text-gray-800 truncate">{file.name}</p>
+              <p className="text-xs text-gray-400">{prettyBytes(file.size)}</p>
+            </div>
+            <div className="text-right">
+              <p className={`font-medium ${status.className}`}>{status.label}</p>
+              {status.detail && <p className="text-xs text-gray-500 break-words">{status.detail}</p>}
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+
   return (
     <div className="min-h-screen bg-gray-50 py-12 px-4">
       <div className="max-w-4xl mx-auto">
@@ -134,35 +373,45 @@ export default function Home() {
             Interactive demo for the <a href="https://www.npmjs.com/package/file2md" target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:text-blue-800 font-semibold">file2md</a> npm package
           </p>
           <p className="text-sm text-gray-500">
-            Convert PDF, DOCX, XLSX, PPTX, HWP, and HWPX files to Markdown format
+            Convert {supportedExtensions ? `${supportedExtensions} files` : 'documents'} to Markdown format
           </p>
         </div>
 
-        {/* Serverless Notice */}
-        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
-          <div className="flex items-start">
-            <div className="flex-shrink-0">
-              <svg className="h-5 w-5 text-blue-400 mt-0.5" fill="currentColor" viewBox="0 0 20 20">
-                <path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" />
-              </svg>
-            </div>
-            <div className="ml-3">
-              <h3 className="text-sm font-medium text-blue-800">
-                Demo Environment Notice
-              </h3>
-              <div className="mt-2 text-sm text-blue-700">
-                <p>
-                  This demo runs in a serverless environment. Image previews are not available in the web interface, 
-                  but all images are included in the downloadable ZIP file. For full image preview capabilities, 
-                  run file2md locally or in a traditional server environment.
+        <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-100">
+          {batchResult ? (
+            /* Batch Result */
+            <div className="space-y-6">
+              <div>
+                <h2 className="text-2xl font-bold text-gray-900 mb-2">
+                  Batch Conversion Finished
+                </h2>
+                <p className="text-gray-600">
+                  {batchResult.succeeded} of {batchResult.results.length} files converted
+                  {batchResult.failed > 0 && `, ${batchResult.failed} failed`}.
+                  {batchResult.downloadUrl && ' Successful files are bundled into one ZIP, each in its own folder.'}
                 </p>
               </div>
-            </div>
-          </div>
-        </div>
 
-        <div className="bg-white rounded-2xl shadow-xl p-6 border border-gray-100">
-          {!result ? (
+              {fileStatusList}
+
+              <div className="flex justify-center space-x-4">
+                <button
+                  onClick={resetForm}
+                  className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                >
+                  Convert More Files
+                </button>
+                {batchResult.downloadUrl && (
+                  <button
+                    onClick={handleDownload}
+                    className="px-8 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors font-medium"
+                  >
+                    Download ZIP
+                  </button>
+                )}
+              </div>
+            </div>
+          ) : !result ? (
             <>
               {/* File Upload Area */}
               <div
@@ -170,7 +419,7 @@ export default function Home() {
                 className={`border-2 border-dashed rounded-xl p-10 text-center cursor-pointer transition-all ${
                   isDragActive
                     ? 'border-blue-500 bg-blue-50 scale-[1.01]'
-                    : selectedFile
+                    : selectedFiles.length > 0
                     ? 'border-green-500 bg-green-50'
                     : 'border-gray-300 hover:border-gray-400 hover:shadow-md'
                 }`}
@@ -187,40 +436,144 @@ export default function Home() {
                       />
                     </svg>
                   </div>
-                  {selectedFile ? (
+                  {selectedFiles.length === 1 ? (
                     <div>
                       <p className="text-green-600 font-medium">File selected:</p>
-                      <p className="text-sm text-gray-500">{selectedFile.name}</p>
+                      <p className="text-sm text-gray-500">{selectedFiles[0].name}</p>
+                      <p className="text-xs text-gray-400">
+                        {(selectedFiles[0].size / 1024 / 1024).toFixed(2)} MB
+                      </p>
+                    </div>
+                  ) : selectedFiles.length > 1 ? (
+                    <div>
+                      <p className="text-green-600 font-medium">{selectedFiles.length} files selected</p>
                       <p className="text-xs text-gray-400">
-                        {(selectedFile.size / 1024 / 1024).toFixed(2)} MB
+                        {(selectedFiles.reduce((sum, f) => sum + f.size, 0) / 1024 / 1024).toFixed(2)} MB total
                       </p>
                     </div>
                   ) : (
                     <div>
                       <p className="text-lg text-gray-600">
                         {isDragActive
-                          ? 'Drop the file here...'
-                          : 'Drag & drop a file here, or click to select'}
+                          ? 'Drop the files here...'
+                          : 'Drag & drop files here, or click to select'}
                       </p>
                       <p className="text-sm text-gray-400 mt-2">
-                        Supports PDF, DOCX, XLSX, PPTX, HWP, HWPX (max 50MB)
+                        {supportedExtensions ? `Supports ${supportedExtensions} ` : ''}
+                        (max {Math.round((formats?.maxFileBytes ?? 50 * 1024 * 1024) / (1024 * 1024))}MB each, up to {MAX_FILES} files)
                       </p>
                     </div>
                   )}
                 </div>
               </div>
 
+              <label className="flex items-center gap-2 mt-4 text-sm text-gray-700">
+                <span className="whitespace-nowrap">Or from URL</span>
+                <input
+                  type="url"
+                  value={sourceUrl}
+                  placeholder={selectedFiles.length > 0 ? 'Clear the selected files to use a URL' : 'https://files.example.com/report.pdf'}
+                  disabled={selectedFiles.length > 0 || isConverting}
+                  onChange={e => {
+                    setSourceUrl(e.target.value);
+                    setResult(null);
+                    setError(null);
+                  }}
+                  className="flex-1 min-w-0 border rounded px-2 py-1 bg-white disabled:bg-gray-50"
+                />
+              </label>
+
+              {selectedFiles.length > 1 && fileStatusList}
+
+              {(selectedFiles.length === 1 || fromUrl) && (isConverting || progress.length > 0) && progressTimeline}
+
               {/* Options */}
               <div className="grid sm:grid-cols-3 gap-4 mt-6">
                 <label className="flex items-center gap-2 text-sm text-gray-700 border rounded-md p-3">
                   <input type="checkbox" checked={extractImages} onChange={e => setExtractImages(e.target.checked)} />
                   Extract images
                 </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 border rounded-md p-3">
+                  <input
+                    type="checkbox"
+                    checked={frontMatter}
+                    disabled={outputFormat !== 'markdown'}
+                    onChange={e => setFrontMatter(e.target.checked)}
+                  />
+                  YAML front matter
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 border rounded-md p-3">
+                  <input
+                    type="checkbox"
+                    checked={optimizeImages}
+                    disabled={!extractImages}
+                    onChange={e => setOptimizeImages(e.target.checked)}
+                  />
+                  Optimize images
+                  <select
+                    value={imageFormat}
+                    disabled={!optimizeImages || !extractImages}
+                    onChange={e => setImageFormat(e.target.value as ImageFormat)}
+                    className="flex-1 border rounded px-2 py-1 bg-white"
+                  >
+                    <option value="webp">WebP</option>
+                    <option value="avif">AVIF</option>
+                    <option value="jpeg">JPEG</option>
+                    <option value="original">Keep format</option>
+                  </select>
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 border rounded-md p-3">
+                  <input
+                    type="checkbox"
+                    checked={embedImages}
+                    disabled={!extractImages}
+                    onChange={e => setEmbedImages(e.target.checked)}
+                  />
+                  Embed images in the file
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 border rounded-md p-3">
+                  <input type="checkbox" checked={chunks} onChange={e => setChunks(e.target.checked)} />
+                  RAG chunks of
+                  <input
+                    type="number"
+                    min={64}
+                    max={8192}
+                    step={64}
+                    value={chunkSize}
+                    disabled={!chunks}
+                    onChange={e => setChunkSize(Number(e.target.value) || 512)}
+                    className="w-20 border rounded px-2 py-1 bg-white"
+                  />
+                  tokens
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 border rounded-md p-3">
+                  Only
+                  <input
+                    type="text"
+                    value={partRange}
+                    disabled={!partKind}
+                    placeholder={partKind ? PART_PLACEHOLDERS[partKind] : 'Select files of one type'}
+                    onChange={e => setPartRange(e.target.value)}
+                    className="flex-1 min-w-0 border rounded px-2 py-1 bg-white"
+                  />
+                </label>
+                <label className="flex items-center gap-2 text-sm text-gray-700 border rounded-md p-3">
+                  Output
+                  <select
+                    value={outputFormat}
+                    onChange={e => setOutputFormat(e.target.value as OutputFormat)}
+                    className="flex-1 border rounded px-2 py-1 bg-white"
+                  >
+                    {(Object.keys(OUTPUT_FORMAT_LABELS) as OutputFormat[]).map(format => (
+                      <option key={format} value={format}>{OUTPUT_FORMAT_LABELS[format]}</option>
+                    ))}
+                  </select>
+                </label>
               </div>
 
               {/* Action Buttons */}
               <div className="flex justify-center space-x-4 mt-6">
-                {selectedFile && (
+                {canConvert && (
                   <button
                     onClick={resetForm}
                     className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
@@ -230,9 +583,9 @@ export default function Home() {
                 )}
                 <button
                   onClick={handleConvert}
-                  disabled={!selectedFile || isConverting}
+                  disabled={!canConvert || isConverting}
                   className={`px-8 py-2 rounded-md font-medium transition-colors shadow ${
-                    !selectedFile || isConverting
+                    !canConvert || isConverting
                       ? 'bg-gray-300 text-gray-500 cursor-not-allowed shadow-none'
                       : 'bg-blue-600 text-white hover:bg-blue-700'
                   }`}
@@ -245,10 +598,20 @@ export default function Home() {
                       </svg>
                       Converting...
                     </span>
+                  ) : selectedFiles.length > 1 ? (
+                    `Convert ${selectedFiles.length} Files`
                   ) : (
                     'Convert to Markdown'
                   )}
                 </button>
+                {isConverting && (
+                  <button
+                    onClick={handleCancel}
+                    className="px-6 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 transition-colors"
+                  >
+                    Cancel
+                  </button>
+                )}
               </div>
 
               {/* Error Display */}
@@ -292,11 +655,6 @@ export default function Home() {
                 </h2>
                 <p className="text-gray-600">
                   Your file has been converted to Markdown format{result.hasImages && ' with extracted images'}.
-                  {result.hasImages && (
-                    <span className="block mt-2 text-sm text-amber-600">
-                      📋 Images are included in the ZIP download but not visible in this serverless preview.
-                    </span>
-                  )}
                 </p>
               </div>
 
@@ -305,88 +663,134 @@ export default function Home() {
                   <h3 className="font-semibold text-gray-900 mb-3">File Conversion Details</h3>
                   <div className="text-sm text-gray-600 space-y-1">
                     <p><strong>File:</strong> {result.filename}</p>
-                    <p><strong>Output:</strong> {result.hasImages ? 'ZIP (Markdown + Images)' : 'Markdown'}</p>
+                    {result.detectedFormat && (
+                      <p><strong>Detected format:</strong> {result.detectedFormat.toUpperCase()}</p>
+                    )}
+                    <p>
+                      <strong>Output:</strong> {resultIsZip
+                        ? `ZIP (${[OUTPUT_FORMAT_LABELS[resultFormat], result.hasImages && 'Images', result.chunks && 'Chunks JSONL'].filter(Boolean).join(' + ')})`
+                        : OUTPUT_FORMAT_LABELS[resultFormat]}
+                    </p>
                     <p><strong>Images:</strong> {result.imageCount ?? (result.hasImages ? 'yes' : 'no')}</p>
                     <p><strong>Charts:</strong> {result.chartCount ?? 0}</p>
+                    {result.embeddedImages && (
+                      <p>
+                        <strong>Embedded images:</strong> {result.embeddedImages.inlined} ({prettyBytes(result.embeddedImages.inlinedBytes)})
+                        {result.embeddedImages.external > 0 && `, ${result.embeddedImages.external} too large and kept as files in the ZIP`}
+                      </p>
+                    )}
+                    {result.chunks && (
+                      <p>
+                        <strong>Chunks:</strong> {result.chunks.length}
+                        {result.chunks.length > 0 && ` (~${Math.round(result.chunks.reduce((sum, c) => sum + c.tokens, 0) / result.chunks.length)} tokens each)`}
+                      </p>
+                    )}
                     {result.stats && (
                       <>
                         <p><strong>Input size:</strong> {prettyBytes(result.stats.inputBytes)}</p>
                         <p><strong>Markdown size:</strong> {prettyBytes(result.stats.markdownBytes)}</p>
                         <p><strong>Compression ratio:</strong> {result.stats.compressionRatio ?? '-'}</p>
+                        {result.stats.selection && (
+                          <p>
+                            <strong>Processed {result.stats.selection.kind}:</strong> {result.stats.selection.processed.join(', ')} of {result.stats.selection.total}
+                          </p>
+                        )}
+                        {result.stats.imageOptimization && (
+                          <p>
+                            <strong>Images optimized:</strong> {prettyBytes(result.stats.imageOptimization.bytesBefore)} → {prettyBytes(result.stats.imageOptimization.bytesAfter)}
+                            {result.stats.imageOptimization.duplicatesRemoved > 0 && ` (${result.stats.imageOptimization.duplicatesRemoved} duplicates removed)`}
+                          </p>
+                        )}
+                        {result.stats.cached && (
+                          <p><strong>Cache:</strong> served from cache (identical file and options converted earlier)</p>
+                        )}
                       </>
                     )}
                   </div>
                 </div>
                 <div className="bg-gray-50 rounded-lg p-4">
                   <div className="flex items-center justify-between mb-4">
-                    <h3 className="font-semibold text-gray-900">Markdown Preview</h3>
+                    <h3 className="font-semibold text-gray-900">{OUTPUT_FORMAT_LABELS[resultFormat]} Preview</h3>
                     <button
                       onClick={handleDownload}
                       className="px-3 py-1.5 bg-green-600 text-white rounded hover:bg-green-700 text-sm"
                     >
-                      Download {result.hasImages ? 'ZIP' : 'Markdown'}
+                      Download {resultIsZip ? 'ZIP' : OUTPUT_FORMAT_LABELS[resultFormat]}
                     </button>
                   </div>
-                  <div className="prose max-w-none text-left bg-white rounded-md p-4 border max-h-[60vh] overflow-auto prose-gray prose-headings:text-gray-900 prose-p:text-gray-800 prose-strong:text-gray-900 prose-li:text-gray-800 prose-blockquote:text-gray-700">
-                    <ErrorBoundary
-                      fallback={
-                        <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-md">
-                          <div className="flex items-center">
-                            <svg className="w-5 h-5 text-yellow-400 mr-2" fill="currentColor" viewBox="0 0 20 20">
-                              <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
-                            </svg>
-                            <p className="text-sm text-yellow-800">
-                              Error rendering markdown preview. The file was converted successfully, but some content cannot be displayed.
-                            </p>
-                          </div>
-                          <div className="mt-2">
-                            <button
-                              onClick={handleDownload}
-                              className="text-sm bg-yellow-600 text-white px-3 py-1 rounded hover:bg-yellow-700"
-                            >
-                              Download Markdown File
-                            </button>
+                  {resultFormat === 'html' && result.preview ? (
+                    <iframe
+                      title="HTML preview"
+                      sandbox=""
+                      srcDoc={result.preview}
+                      className="w-full h-[60vh] bg-white rounded-md border"
+                    />
+                  ) : resultFormat !== 'markdown' && result.preview ? (
+                    <pre className="text-left text-xs bg-white rounded-md p-4 border max-h-[60vh] overflow-auto whitespace-pre-wrap break-words">
+                      {resultFormat === 'mdast' ? JSON.stringify(JSON.parse(result.preview), null, 2) : result.preview}
+                    </pre>
+                  ) : (
+                    <div className="prose max-w-none text-left bg-white rounded-md p-4 border max-h-[60vh] overflow-auto prose-gray prose-headings:text-gray-900 prose-p:text-gray-800 prose-strong:text-gray-900 prose-li:text-gray-800 prose-blockquote:text-gray-700">
+                      <ErrorBoundary
+                        fallback={
+                          <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-md">
+                            <div className="flex items-center">
+                              <svg className="w-5 h-5 text-yellow-400 mr-2" fill="currentColor" viewBox="0 0 20 20">
+                                <path fillRule="evenodd" d="M8.257 3.099c.765-1.36 2.722-1.36 3.486 0l5.58 9.92c.75 1.334-.213 2.98-1.742 2.98H4.42c-1.53 0-2.493-1.646-1.743-2.98l5.58-9.92zM11 13a1 1 0 11-2 0 1 1 0 012 0zm-1-8a1 1 0 00-1 1v3a1 1 0 002 0V6a1 1 0 00-1-1z" clipRule="evenodd" />
+                              </svg>
+                              <p className="text-sm text-yellow-800">
+                                Error rendering markdown preview. The file was converted successfully, but some content cannot be displayed.
+                              </p>
+                            </div>
+                            <div className="mt-2">
+                              <button
+                                onClick={handleDownload}
+                                className="text-sm bg-yellow-600 text-white px-3 py-1 rounded hover:bg-yellow-700"
+                              >
+                                Download Markdown File
+                              </button>
+                            </div>
                           </div>
-                        </div>
-                      }
-                    >
-                      <ReactMarkdown 
-                        remarkPlugins={[remarkGfm]}
-                        components={{
-                         img: ({...props }) => (
-                           // eslint-disable-next-line @next/next/no-img-element
-                           <img
-                             src={props.src as string}
-                             style={{ 
-                               maxWidth: '100%', 
-                               height: 'auto', 
-                               marginBottom: '1rem',
-                               border: '1px solid #e5e7eb',
-                               borderRadius: '4px',
-                               backgroundColor: '#f9fafb'
-                             }}
-                             onLoad={(e) => {
-                               (e.target as HTMLImageElement).style.backgroundColor = 'transparent';
-                             }}
-                             onError={(e) => {
-                               const img = e.target as HTMLImageElement;
-                               img.style.display = 'none';
-                               // Add fallback text
-                               const fallback = document.createElement('div');
-                               fallback.textContent = `[Image: ${props.alt || 'Unable to load image'}]`;
-                               fallback.style.cssText = 'color: #6b7280; font-style: italic; padding: 8px; border: 1px dashed #d1d5db; border-radius: 4px; margin-bottom: 1rem;';
-                               img.parentNode?.insertBefore(fallback, img.nextSibling);
-                             }}
-                             alt={props.alt || 'Image from Markdown conversion'}
-                             loading="lazy"
-                           />
-                         )
-                        }}
+                        }
                       >
-                        {result.markdown || ''}
-                      </ReactMarkdown>
-                    </ErrorBoundary>
-                  </div>
+                        <ReactMarkdown 
+                          remarkPlugins={[remarkGfm]}
+                          components={{
+                           img: ({...props }) => (
+                             // eslint-disable-next-line @next/next/no-img-element
+                             <img
+                               src={props.src as string}
+                               style={{ 
+                                 maxWidth: '100%', 
+                                 height: 'auto', 
+                                 marginBottom: '1rem',
+                                 border: '1px solid #e5e7eb',
+                                 borderRadius: '4px',
+                                 backgroundColor: '#f9fafb'
+                               }}
+                               onLoad={(e) => {
+                                 (e.target as HTMLImageElement).style.backgroundColor = 'transparent';
+                               }}
+                               onError={(e) => {
+                                 const img = e.target as HTMLImageElement;
+                                 img.style.display = 'none';
+                                 // Add fallback text
+                                 const fallback = document.createElement('div');
+                                 fallback.textContent = `[Image: ${props.alt || 'Unable to load image'}]`;
+                                 fallback.style.cssText = 'color: #6b7280; font-style: italic; padding: 8px; border: 1px dashed #d1d5db; border-radius: 4px; margin-bottom: 1rem;';
+                                 img.parentNode?.insertBefore(fallback, img.nextSibling);
+                               }}
+                               alt={props.alt || 'Image from Markdown conversion'}
+                               loading="lazy"
+                             />
+                           )
+                          }}
+                        >
+                          {result.markdown || ''}
+                        </ReactMarkdown>
+                      </ErrorBoundary>
+                    </div>
+                  )}
                 </div>
               </div>
 
@@ -401,7 +805,7 @@ export default function Home() {
                   onClick={handleDownload}
                   className="px-8 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors font-medium"
                 >
-                  Download {result.hasImages ? 'ZIP' : 'Markdown'}
+                  Download {resultIsZip ? 'ZIP' : OUTPUT_FORMAT_LABELS[resultFormat]}
                 </button>
               </div>
             </div>
@@ -444,22 +848,19 @@ export default function Home() {
           {/* Supported Formats */}
           <div className="bg-white rounded-lg shadow p-6">
             <h3 className="text-lg font-semibold text-gray-900 mb-4">Supported Formats</h3>
-            <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-4">
-              {[
-                { name: 'PDF', desc: 'Portable Document Format', icon: '📄' },
-                { name: 'DOCX', desc: 'Microsoft Word Document', icon: '📝' },
-                { name: 'XLSX', desc: 'Microsoft Excel Spreadsheet', icon: '📊' },
-                { name: 'PPTX', desc: 'Microsoft PowerPoint Presentation', icon: '📽️' },
-                { name: 'HWP', desc: 'Hangul Word Processor', icon: '🇰🇷' },
-                { name: 'HWPX', desc: 'Hangul Word Processor XML', icon: '📋' }
-              ].map(format => (
-                <div key={format.name} className="text-center p-3 border rounded-lg hover:border-blue-300 transition-colors">
-                  <div className="text-2xl mb-2">{format.icon}</div>
-                  <div className="font-medium text-gray-900">{format.name}</div>
-                  <div className="text-xs text-gray-500">{format.desc}</div>
-                </div>
-              ))}
-            </div>
+            {formats ? (
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4">
+                {formats.formats.map(format => (
+                  <div key={format.format} className="text-center p-3 border rounded-lg hover:border-blue-300 transition-colors">
+                    <div className="text-2xl mb-2">{FORMAT_ICONS[format.format] ?? '📄'}</div>
+                    <div className="font-medium text-gray-900">{format.label}</div>
+                    <div className="text-xs text-gray-500">{format.extensions.join(' ')}</div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="text-sm text-gray-500">Loading the server&apos;s formats...</p>
+            )}
           </div>
         </div>
       </div>
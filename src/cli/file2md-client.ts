@@ -0,0 +1,431 @@
+import { mkdir, readFile, readdir, writeFile } from 'fs/promises';
+import { createServer } from 'http';
+import path from 'path';
+import { parseArgs } from 'util';
+import { ConversionApiError, ConversionClient, ConversionOptions } from '@/lib/client';
+import { ErrorCode, PartKind, outputFormatSchema } from '@/lib/schemas';
+import { SIGNATURE_HEADER, verifySignature } from '@/lib/signatures';
+import { ZIP_MAGIC, hasMagic, readZipDirectory, readZipEntry } from '@/lib/sniff';
+
+// Command-line client for the conversion API, run through bin/file2md-client.mjs.
+// Each document is its own POST /api/convert, so concurrency and retries apply per file.
+
+const USAGE = `Usage:
+  file2md-client convert <files or urls...> [options]
+  file2md-client formats [options]
+  file2md-client listen [--port <n>] [--secret <secret>]
+
+convert converts each file (globs such as "docs/**/*.pdf" are expanded) or
+http(s) URL and writes the result to --out. Exits with the code of the first failure.
+listen prints every correctly signed webhook it receives as one JSON line, for
+trying --callback-url against a local receiver. Stop it with Ctrl+C.
+
+Options:
+  -s, --server <url>       Server to talk to (FILE2MD_URL, default http://localhost:3000)
+      --api-key <key>      API key (FILE2MD_API_KEY)
+  -o, --out <dir>          Where results are written (default: current directory)
+  -f, --format <md|zip>    md unpacks ZIP results into <out>/<name>/; zip keeps them (default md)
+      --output-format <f>  markdown, html, text or mdast (default markdown)
+      --embed-images       Inline images as data: URIs
+      --front-matter       Start markdown with YAML front matter
+      --chunks             Also write retrieval chunks (<name>.chunks.jsonl)
+      --pages <spec>       Only these pages, e.g. 1-3,7
+      --slides <spec>      Only these slides
+      --sheets <spec>      Only these sheets, by name or position
+  -c, --concurrency <n>    Documents converted at the same time (default 2)
+      --retries <n>        Retries of rate-limited, busy or unreachable requests (default 2)
+      --callback-url <url> Have the server POST a signed summary here when each document is done
+  -p, --port <n>           Port listen accepts webhooks on (default 4000)
+      --secret <secret>    Secret listen checks signatures with (WEBHOOK_SECRET)
+  -h, --help               Show this help
+`;
+
+// One exit code per server error code, so scripts can tell failures apart
+const EXIT_CODES: Record<ErrorCode, number> = {
+  INVALID_REQUEST: 10,
+  UNAUTHORIZED: 11,
+  FORBIDDEN: 12,
+  URL_NOT_ALLOWED: 13,
+  NOT_FOUND: 14,
+  NOT_READY: 15,
+  EXPIRED: 16,
+  TOO_LARGE: 17,
+  UNSUPPORTED_TYPE: 18,
+  ENCRYPTED_DOCUMENT: 19,
+  CORRUPT_FILE: 20,
+  SELECTION_NOT_FOUND: 21,
+  BATCH_FAILED: 22,
+  MEMORY_LIMIT: 23,
+  CANCELLED: 24,
+  RATE_LIMITED: 25,
+  INTERNAL: 26,
+  FETCH_FAILED: 27,
+  QUEUE_FULL: 28,
+  TIMEOUT: 29,
+};
+// Failures that did not come with an error code: unreadable input, unreachable server
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+
+// Worth another attempt; everything else fails the same way again
+const RETRYABLE_CODES: ErrorCode[] = ['RATE_LIMITED', 'QUEUE_FULL', 'FETCH_FAILED'];
+const MAX_BACKOFF_MS = 30 * 1000;
+// Results are at most a converted 50MB upload; anything far larger is not ours
+const MAX_UNPACKED_BYTES = 512 * 1024 * 1024;
+
+class UsageError extends Error {}
+
+type Input = { kind: 'file'; path: string } | { kind: 'url'; url: string };
+
+interface Settings {
+  out: string;
+  zip: boolean;
+  concurrency: number;
+  retries: number;
+  options: ConversionOptions;
+}
+
+function readCount(value: string | undefined, fallback: number, name: string, min: number): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < min) {
+    throw new UsageError(`--${name} must be a whole number of at least ${min}`);
+  }
+  return parsed;
+}
+
+// Shells expand globs themselves; this covers quoted patterns and shells that do not.
+// Supports *, ? and ** (any number of directories).
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      const slash = pattern[i + 2] === '/';
+      source += slash ? '(?:.*/)?' : '.*';
+      i += slash ? 2 : 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+// Files below dir, as /-separated paths relative to it; dot files are skipped as shells do
+async function walk(dir: string, depth: number, prefix = ''): Promise<string[]> {
+  if (depth <= 0) return [];
+  let entries;
+  try {
+    entries = await readdir(dir, { withFileTypes: true });
+  } catch {
+    return [];
+  }
+  const found: string[] = [];
+  for (const entry of entries) {
+    if (entry.name.startsWith('.')) continue;
+    const relative = `${prefix}${entry.name}`;
+    if (entry.isDirectory()) {
+      found.push(...await walk(path.join(dir, entry.name), depth - 1, `${relative}/`));
+    } else if (entry.isFile()) {
+      found.push(relative);
+    }
+  }
+  return found;
+}
+
+async function expandGlob(pattern: string): Promise<string[]> {
+  const segments = pattern.split(/[\\/]/);
+  const firstGlob = segments.findIndex(segment => /[*?]/.test(segment));
+  const base = segments.slice(0, firstGlob).join('/') || (pattern.startsWith('/') ? '/' : '.');
+  const rest = segments.slice(firstGlob);
+  const matcher = globToRegExp(rest.join('/'));
+  const depth = rest.includes('**') ? Infinity : rest.length;
+  return (await walk(base, depth))
+    .filter(relative => matcher.test(relative))
+    .map(relative => path.join(base, relative))
+    .sort();
+}
+
+async function resolveInputs(args: string[]): Promise<Input[]> {
+  const inputs: Input[] = [];
+  for (const arg of args) {
+    if (/^https?:\/\//i.test(arg)) {
+      inputs.push({ kind: 'url', url: arg });
+    } else if (/[*?]/.test(arg)) {
+      const matches = await expandGlob(arg);
+      if (matches.length === 0) throw new UsageError(`No files match ${arg}`);
+      inputs.push(...matches.map(match => ({ kind: 'file' as const, path: match })));
+    } else {
+      inputs.push({ kind: 'file', path: arg });
+    }
+  }
+  return inputs;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function isRetryable(error: unknown): boolean {
+  if (error instanceof ConversionApiError) {
+    // No code: a proxy or load balancer answered instead of the API
+    return error.code ? RETRYABLE_CODES.includes(error.code) : error.status >= 500;
+  }
+  // fetch() rejects with a TypeError when the server cannot be reached
+  return error instanceof TypeError;
+}
+
+async function withRetries<T>(retries: number, label: string, signal: AbortSignal, attempt: () => Promise<T>): Promise<T> {
+  for (let retry = 0; ; retry++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (retry >= retries || signal.aborted || !isRetryable(error)) throw error;
+      const retryAfterMs = error instanceof ConversionApiError && error.retryAfter !== undefined ? error.retryAfter * 1000 : 0;
+      const delay = Math.min(MAX_BACKOFF_MS, Math.max(retryAfterMs, 1000 * 2 ** retry));
+      console.error(`${label}: ${describe(error)}; retrying in ${Math.ceil(delay / 1000)}s`);
+      await sleep(delay);
+    }
+  }
+}
+
+function describe(error: unknown): string {
+  if (error instanceof ConversionApiError) {
+    const reference = error.requestId ? ` (request ${error.requestId})` : '';
+    return `${error.code ?? `HTTP ${error.status}`}: ${error.message}${reference}`;
+  }
+  // fetch() hides why the connection failed in its cause
+  const cause = error instanceof Error && error.cause instanceof Error ? ` (${error.cause.message})` : '';
+  return error instanceof Error ? `${error.message}${cause}` : String(error);
+}
+
+function exitCodeFor(error: unknown, signal: AbortSignal): number {
+  if (signal.aborted) return EXIT_CODES.CANCELLED;
+  if (error instanceof ConversionApiError && error.code) return EXIT_CODES[error.code];
+  if (error instanceof UsageError) return EXIT_USAGE;
+  return EXIT_FAILURE;
+}
+
+// Two inputs can share a name; keep their outputs apart
+function uniqueName(name: string, used: Set<string>): string {
+  let candidate = name;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) {
+    candidate = `${name}-${i}`;
+  }
+  used.add(candidate.toLowerCase());
+  return candidate;
+}
+
+async function unpackZip(data: Buffer, dir: string): Promise<void> {
+  const entries = readZipDirectory(data);
+  if (!entries) throw new Error('The downloaded ZIP is damaged');
+  const root = path.resolve(dir);
+  for (const [name, entry] of entries) {
+    if (name.endsWith('/')) continue;
+    const target = path.resolve(root, name);
+    // Never write outside the folder, whatever the archive says
+    if (!target.startsWith(root + path.sep)) throw new Error(`Refusing to unpack ${name}`);
+    const content = readZipEntry(data, entry, MAX_UNPACKED_BYTES);
+    if (!content) throw new Error(`Could not unpack ${name}`);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, content);
+  }
+}
+
+// Convert one input and write its result; returns the path written
+async function convertInput(
+  client: ConversionClient,
+  input: Input,
+  settings: Settings,
+  usedNames: Set<string>,
+  signal: AbortSignal
+): Promise<string> {
+  const label = input.kind === 'file' ? input.path : input.url;
+  const source = input.kind === 'file'
+    ? new File([await readFile(input.path)], path.basename(input.path))
+    : { url: input.url };
+
+  // Download links are single-use, so a failed download is retried with a fresh conversion
+  const { result, data } = await withRetries(settings.retries, label, signal, async () => {
+    const result = await client.convert(source, settings.options, { signal });
+    const response = await client.download(result.downloadUrl, { signal });
+    return { result, data: Buffer.from(await response.arrayBuffer()) };
+  });
+
+  // The server names results <name>__<id>.<ext>
+  const extension = path.extname(result.filename);
+  const stem = input.kind === 'file'
+    ? path.basename(input.path, path.extname(input.path))
+    : result.filename.slice(0, Math.max(0, result.filename.lastIndexOf('__'))) || 'document';
+  const name = uniqueName(stem, usedNames);
+
+  await mkdir(settings.out, { recursive: true });
+  if (hasMagic(data, ZIP_MAGIC) && !settings.zip) {
+    const dir = path.join(settings.out, name);
+    await unpackZip(data, dir);
+    return dir;
+  }
+  const file = path.join(settings.out, `${name}${extension}`);
+  await writeFile(file, data);
+  return file;
+}
+
+// Run fn over items with at most `limit` running at once, keeping the results in order
+async function mapLimit<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+async function convertCommand(client: ConversionClient, args: string[], settings: Settings, signal: AbortSignal): Promise<number> {
+  if (args.length === 0) throw new UsageError('Name at least one file or URL to convert');
+  const inputs = await resolveInputs(args);
+  const usedNames = new Set<string>();
+
+  const outcomes = await mapLimit(inputs, settings.concurrency, async input => {
+    const label = input.kind === 'file' ? input.path : input.url;
+    try {
+      const written = await convertInput(client, input, settings, usedNames, signal);
+      console.log(written);
+      return 0;
+    } catch (error) {
+      console.error(`${label}: ${describe(error)}`);
+      return exitCodeFor(error, signal);
+    }
+  });
+
+  const failed = outcomes.filter(code => code !== 0).length;
+  if (inputs.length > 1) {
+    console.error(`${inputs.length - failed} of ${inputs.length} converted`);
+  }
+  return outcomes.find(code => code !== 0) ?? 0;
+}
+
+async function formatsCommand(client: ConversionClient, signal: AbortSignal): Promise<number> {
+  const { formats, maxFileBytes } = await client.getFormats({ signal });
+  for (const format of formats) {
+    const parts = format.parts ? `  (--${format.parts})` : '';
+    console.log(`${format.format.padEnd(6)} ${format.label.padEnd(24)} ${format.extensions.join(' ')}${parts}`);
+  }
+  console.log(`Files up to ${Math.floor(maxFileBytes / (1024 * 1024))}MB`);
+  return 0;
+}
+
+async function listenCommand(port: number, secret: string, signal: AbortSignal): Promise<number> {
+  const server = createServer((request, response) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => {
+      const body = Buffer.concat(chunks).toString('utf-8');
+      const signature = request.headers[SIGNATURE_HEADER.toLowerCase()];
+      if (!verifySignature(body, typeof signature === 'string' ? signature : undefined, secret)) {
+        console.error(`Rejected ${request.method} ${request.url}: missing or invalid signature`);
+        response.writeHead(401).end();
+        return;
+      }
+      console.log(body);
+      response.writeHead(204).end();
+    });
+  });
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, resolve);
+  });
+  console.error(`Listening for webhooks on http://localhost:${port}/`);
+  await new Promise(resolve => signal.addEventListener('abort', resolve, { once: true }));
+  server.close();
+  return 0;
+}
+
+async function main(argv: string[]): Promise<number> {
+  const controller = new AbortController();
+  // Ctrl+C aborts the requests in flight, which stops their conversions on the server
+  process.once('SIGINT', () => controller.abort());
+
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        server: { type: 'string', short: 's' },
+        'api-key': { type: 'string' },
+        out: { type: 'string', short: 'o' },
+        format: { type: 'string', short: 'f' },
+        'output-format': { type: 'string' },
+        'embed-images': { type: 'boolean' },
+        'front-matter': { type: 'boolean' },
+        chunks: { type: 'boolean' },
+        pages: { type: 'string' },
+        slides: { type: 'string' },
+        sheets: { type: 'string' },
+        concurrency: { type: 'string', short: 'c' },
+        retries: { type: 'string' },
+        'callback-url': { type: 'string' },
+        port: { type: 'string', short: 'p' },
+        secret: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+      },
+    });
+    const [command, ...args] = positionals;
+    if (values.help || !command) {
+      console.log(USAGE);
+      return values.help ? 0 : EXIT_USAGE;
+    }
+
+    const client = new ConversionClient({
+      baseUrl: values.server ?? process.env.FILE2MD_URL ?? 'http://localhost:3000',
+      apiKey: values['api-key'] ?? process.env.FILE2MD_API_KEY,
+    });
+    if (command === 'formats') return await formatsCommand(client, controller.signal);
+    if (command === 'listen') {
+      const secret = values.secret ?? process.env.WEBHOOK_SECRET;
+      if (!secret) throw new UsageError('listen needs --secret or WEBHOOK_SECRET');
+      return await listenCommand(readCount(values.port, 4000, 'port', 1), secret, controller.signal);
+    }
+    if (command !== 'convert') throw new UsageError(`Unknown command ${command}`);
+
+    const format = values.format ?? 'md';
+    if (format !== 'md' && format !== 'zip') throw new UsageError('--format must be md or zip');
+    const outputFormat = outputFormatSchema.safeParse(values['output-format'] ?? 'markdown');
+    if (!outputFormat.success) throw new UsageError(`--output-format must be one of ${outputFormatSchema.options.join(', ')}`);
+    const selections = (['pages', 'slides', 'sheets'] as PartKind[]).filter(kind => values[kind] !== undefined);
+    if (selections.length > 1) throw new UsageError('Use only one of --pages, --slides and --sheets');
+
+    const options: ConversionOptions = {
+      outputFormat: outputFormat.data,
+      embedImages: values['embed-images'],
+      frontMatter: values['front-matter'],
+      chunks: values.chunks,
+      callbackUrl: values['callback-url'],
+    };
+    for (const kind of selections) options[kind] = values[kind];
+
+    return await convertCommand(client, args, {
+      out: values.out ?? '.',
+      zip: format === 'zip',
+      concurrency: readCount(values.concurrency, 2, 'concurrency', 1),
+      retries: readCount(values.retries, 2, 'retries', 0),
+      options,
+    }, controller.signal);
+  } catch (error) {
+    if (error instanceof UsageError || (error instanceof TypeError && 'code' in error && String(error.code).startsWith('ERR_PARSE_ARGS'))) {
+      console.error(`${error.message}\n\n${USAGE}`);
+      return EXIT_USAGE;
+    }
+    console.error(describe(error));
+    return exitCodeFor(error, controller.signal);
+  }
+}
+
+main(process.argv.slice(2)).then(code => {
+  process.exitCode = code;
+});
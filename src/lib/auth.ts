@@ -0,0 +1,167 @@
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest } from 'next/server';
+import { ApiError, errorResponse } from '@/lib/errors';
+
+export type ApiScope = 'convert' | 'admin';
+
+export interface ApiKey {
+  name: string;
+  // sha256 of the key, hex encoded; the key itself is never stored
+  hash: Buffer;
+  scopes: ApiScope[];
+}
+
+export type AuthResult =
+  | { ok: true; principal: string }
+  | { ok: false; code: 'UNAUTHORIZED' | 'FORBIDDEN'; error: string; scope: ApiScope };
+
+export const SESSION_COOKIE = 'file2md_session';
+// How long a browser session cookie is accepted
+const SESSION_TTL_SECONDS = 12 * 60 * 60; // 12 hours
+// Browser sessions only ever get these scopes; admin routes always need a key
+const SESSION_SCOPES: ApiScope[] = ['convert'];
+
+const SCOPES: ApiScope[] = ['convert', 'admin'];
+
+const globalForAuth = globalThis as unknown as { file2mdSessionSecret?: Buffer };
+
+// Who withAuth() let through, for the rate limiter and per-caller records
+const principals = new WeakMap<Request, string>();
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key, 'utf-8').digest('hex');
+}
+
+// API_KEYS holds comma separated <name>:<sha256 hex>:<scope>[+<scope>] entries, e.g.
+//   API_KEYS=ci:3f1a...e9:convert,ops:7bc2...01:convert+admin
+export function parseApiKeys(value: string | undefined): ApiKey[] {
+  const keys: ApiKey[] = [];
+  for (const entry of (value ?? '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const [name, hash, scopeList] = entry.split(':');
+    if (!name || !/^[0-9a-f]{64}$/i.test(hash ?? '')) {
+      throw new Error(`Invalid API_KEYS entry "${name || entry}": expected <name>:<sha256 hex>:<scopes>`);
+    }
+    const scopes = (scopeList || 'convert').split('+').map(s => s.trim().toLowerCase());
+    const unknown = scopes.find(s => !SCOPES.includes(s as ApiScope));
+    if (unknown) {
+      throw new Error(`Invalid API_KEYS entry "${name}": unknown scope "${unknown}"`);
+    }
+    keys.push({ name, hash: Buffer.from(hash, 'hex'), scopes: scopes as ApiScope[] });
+  }
+  return keys;
+}
+
+// Authentication is off until at least one key is configured
+export function isAuthEnabled(): boolean {
+  return parseApiKeys(process.env.API_KEYS).length > 0;
+}
+
+function getSessionSecret(): Buffer {
+  if (process.env.AUTH_SESSION_SECRET) {
+    return Buffer.from(process.env.AUTH_SESSION_SECRET, 'utf-8');
+  }
+  // Without a configured secret, sessions only survive until the server restarts
+  if (!globalForAuth.file2mdSessionSecret) {
+    globalForAuth.file2mdSessionSecret = randomBytes(32);
+  }
+  return globalForAuth.file2mdSessionSecret;
+}
+
+function signSession(expiresAt: number, id: string): string {
+  return createHmac('sha256', getSessionSecret()).update(`session\n${expiresAt}\n${id}`).digest('base64url');
+}
+
+function safeEqual(a: Buffer, b: Buffer): boolean {
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// Token format: <expiresAt>.<id>.<signature>. The random ID tells browsers apart, so each
+// one only sees its own jobs.
+export function createSessionToken(): { token: string; maxAge: number } {
+  const expiresAt = Math.floor(Date.now() / 1000) + SESSION_TTL_SECONDS;
+  const id = randomBytes(16).toString('base64url');
+  return { token: `${expiresAt}.${id}.${signSession(expiresAt, id)}`, maxAge: SESSION_TTL_SECONDS };
+}
+
+// The session's ID, if the token is genuine and has not expired
+function verifySession(token: string | undefined): string | null {
+  const [expiresRaw, id, signature] = (token ?? '').split('.');
+  const expiresAt = Number.parseInt(expiresRaw ?? '', 10);
+  if (!Number.isFinite(expiresAt) || !id || !signature || expiresAt * 1000 < Date.now()) {
+    return null;
+  }
+  return safeEqual(Buffer.from(signature), Buffer.from(signSession(expiresAt, id))) ? id : null;
+}
+
+// Sessions are only handed to the app's own pages
+export function isSameOrigin(request: NextRequest): boolean {
+  const fetchSite = request.headers.get('sec-fetch-site');
+  if (fetchSite) return fetchSite === 'same-origin';
+
+  const origin = request.headers.get('origin');
+  if (!origin) return false;
+  try {
+    return new URL(origin).host === (request.headers.get('host') ?? request.nextUrl.host);
+  } catch {
+    return false;
+  }
+}
+
+export function authorize(request: NextRequest, scope: ApiScope): AuthResult {
+  const keys = parseApiKeys(process.env.API_KEYS);
+  if (keys.length === 0) {
+    return { ok: true, principal: 'anonymous' };
+  }
+
+  const bearer = request.headers.get('authorization')?.match(/^Bearer\s+(.+)$/i)?.[1]?.trim();
+  if (bearer) {
+    const hash = Buffer.from(hashApiKey(bearer), 'hex');
+    const key = keys.find(k => safeEqual(k.hash, hash));
+    if (!key) {
+      return { ok: false, code: 'UNAUTHORIZED', error: 'Invalid API key', scope };
+    }
+    if (!key.scopes.includes(scope)) {
+      return { ok: false, code: 'FORBIDDEN', error: `API key "${key.name}" lacks the ${scope} scope`, scope };
+    }
+    return { ok: true, principal: `key:${key.name}` };
+  }
+
+  const session = SESSION_SCOPES.includes(scope) ? verifySession(request.cookies.get(SESSION_COOKIE)?.value) : null;
+  if (session) {
+    return { ok: true, principal: `session:${session}` };
+  }
+  return { ok: false, code: 'UNAUTHORIZED', error: 'API key required', scope };
+}
+
+// `key:<name>` for API keys, `session:<id>` or `anonymous`; undefined outside withAuth()
+export function getPrincipal(request: Request): string | undefined {
+  return principals.get(request);
+}
+
+// Name of the API key withAuth() let through, if the caller used one
+export function getApiKeyName(request: Request): string | undefined {
+  const principal = principals.get(request);
+  return principal?.startsWith('key:') ? principal.slice('key:'.length) : undefined;
+}
+
+export function authErrorResponse(request: NextRequest, result: Extract<AuthResult, { ok: false }>): Response {
+  const challenge = result.code === 'FORBIDDEN'
+    ? `Bearer realm="file2md", error="insufficient_scope", scope="${result.scope}"`
+    : 'Bearer realm="file2md"';
+  return errorResponse(request, new ApiError(result.code, result.error, { headers: { 'WWW-Authenticate': challenge } }));
+}
+
+// Wrap a route handler so it only runs for callers holding the given scope
+export function withAuth<Args extends unknown[]>(
+  scope: ApiScope,
+  handler: (request: NextRequest, ...args: Args) => Promise<Response>
+): (request: NextRequest, ...args: Args) => Promise<Response> {
+  return async (request, ...args) => {
+    const result = authorize(request, scope);
+    if (!result.ok) {
+      return authErrorResponse(request, result);
+    }
+    principals.set(request, result.principal);
+    return handler(request, ...args);
+  };
+}
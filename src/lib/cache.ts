@@ -0,0 +1,186 @@
+import { createHash } from 'crypto';
+import { copyFile, mkdir, readFile, readdir, rename, rm, stat, utimes, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import type { ConversionStats, ConvertOptions, File2mdResult } from '@/lib/convert';
+import { envInt } from '@/lib/numbers';
+
+// Default cap on the on-disk cache; override with CONVERSION_CACHE_MAX_BYTES (0 disables caching)
+const DEFAULT_MAX_BYTES = 500 * 1024 * 1024; // 500MB
+// Half-written entries older than this are treated as abandoned
+const STALE_TEMP_MS = 60 * 60 * 1000; // 1 hour
+
+const ENTRY_FILE = 'entry.json';
+const IMAGES_DIR = 'images';
+
+interface CacheEntry {
+  key: string;
+  createdAt: number;
+  sizeBytes: number;
+  // file2md result with every image savedPath reduced to its basename
+  result: File2mdResult;
+  stats: ConversionStats;
+}
+
+export interface CacheHit {
+  result: File2mdResult;
+  stats: ConversionStats;
+}
+
+export interface CachePruneReport {
+  entries: number;
+  removed: number;
+  freedBytes: number;
+  totalBytes: number;
+}
+
+export function getCacheDir(): string {
+  if (process.env.CONVERSION_CACHE_DIR) return process.env.CONVERSION_CACHE_DIR;
+  return process.env.VERCEL ? '/tmp/file2md-cache' : path.join(process.cwd(), '.cache', 'conversions');
+}
+
+function getMaxBytes(): number {
+  return envInt('CONVERSION_CACHE_MAX_BYTES', DEFAULT_MAX_BYTES);
+}
+
+export function isCacheEnabled(): boolean {
+  return getMaxBytes() > 0;
+}
+
+// Same bytes + same format + same options => same key, regardless of the uploaded file name.
+// Part selections are part of the key, since unselected parts are left out of the conversion.
+export function cacheKey(buffer: Buffer, options: ConvertOptions, format: string): string {
+  return createHash('sha256')
+    .update(buffer)
+    .update(JSON.stringify({
+      // The same text converts differently as CSV and as plain text
+      format,
+      preserveLayout: options.preserveLayout,
+      extractImages: options.extractImages,
+      extractCharts: options.extractCharts,
+      selection: options.selection && { kind: options.selection.kind, spec: options.selection.spec },
+    }))
+    .digest('hex');
+}
+
+// Copy a cached entry's images into imageDir and return the result pointing at them
+export async function readCache(key: string, imageDir: string): Promise<CacheHit | null> {
+  if (!isCacheEnabled()) return null;
+
+  const entryDir = path.join(getCacheDir(), key);
+  try {
+    const entry = JSON.parse(await readFile(path.join(entryDir, ENTRY_FILE), 'utf-8')) as CacheEntry;
+
+    await mkdir(imageDir, { recursive: true });
+    const images = [];
+    for (const image of entry.result.images) {
+      const savedPath = path.join(imageDir, image.savedPath);
+      await copyFile(path.join(entryDir, IMAGES_DIR, image.savedPath), savedPath);
+      images.push({ ...image, savedPath });
+    }
+
+    // mtime of entry.json doubles as the last-access time for eviction
+    const now = new Date();
+    await utimes(path.join(entryDir, ENTRY_FILE), now, now).catch(() => {});
+
+    return { result: { ...entry.result, images } as File2mdResult, stats: entry.stats };
+  } catch {
+    // Missing or damaged entry: treat as a miss
+    return null;
+  }
+}
+
+export async function writeCache(key: string, result: File2mdResult, stats: ConversionStats): Promise<void> {
+  if (!isCacheEnabled()) return;
+
+  const cacheDir = getCacheDir();
+  const entryDir = path.join(cacheDir, key);
+  if (existsSync(entryDir)) return;
+
+  // Build the entry next to its final location, then rename so readers never see half an entry
+  const tempDir = path.join(cacheDir, `.tmp-${key}-${Date.now()}-${Math.random().toString(36).substring(2)}`);
+  try {
+    await mkdir(path.join(tempDir, IMAGES_DIR), { recursive: true });
+
+    let sizeBytes = 0;
+    const images = [];
+    for (const image of result.images) {
+      const savedPath = typeof image.savedPath === 'string' ? image.savedPath : '';
+      if (!savedPath) continue;
+      const name = path.basename(savedPath);
+      await copyFile(savedPath, path.join(tempDir, IMAGES_DIR, name));
+      sizeBytes += (await stat(savedPath)).size;
+      images.push({ ...image, savedPath: name });
+    }
+
+    const cachedResult = { ...result, images } as File2mdResult;
+    const entry: CacheEntry = {
+      key,
+      createdAt: Date.now(),
+      sizeBytes: sizeBytes + Buffer.byteLength(JSON.stringify(cachedResult), 'utf-8'),
+      result: cachedResult,
+      stats,
+    };
+    await writeFile(path.join(tempDir, ENTRY_FILE), JSON.stringify(entry), 'utf-8');
+
+    await rename(tempDir, entryDir);
+  } catch {
+    // Another request may have stored the same key first; caching is best effort
+    await rm(tempDir, { recursive: true, force: true }).catch(() => {});
+    return;
+  }
+
+  await pruneCache().catch(() => {});
+}
+
+// Enforce the size cap (least recently used first) and drop abandoned temp entries.
+// With dryRun, only reports what would be evicted.
+export async function pruneCache(options: { dryRun?: boolean } = {}): Promise<CachePruneReport> {
+  const dryRun = !!options.dryRun;
+  const report: CachePruneReport = { entries: 0, removed: 0, freedBytes: 0, totalBytes: 0 };
+  const cacheDir = getCacheDir();
+  if (!existsSync(cacheDir)) return report;
+
+  const maxBytes = getMaxBytes();
+  const now = Date.now();
+  const entries: { dir: string; sizeBytes: number; lastAccess: number }[] = [];
+
+  for (const name of await readdir(cacheDir)) {
+    const dir = path.join(cacheDir, name);
+    try {
+      if (name.startsWith('.tmp-')) {
+        if (!dryRun && now - (await stat(dir)).mtime.getTime() > STALE_TEMP_MS) {
+          await rm(dir, { recursive: true, force: true });
+        }
+        continue;
+      }
+
+      const entryPath = path.join(dir, ENTRY_FILE);
+      const entryStat = await stat(entryPath);
+      const { sizeBytes } = JSON.parse(await readFile(entryPath, 'utf-8')) as CacheEntry;
+      entries.push({ dir, sizeBytes, lastAccess: entryStat.mtime.getTime() });
+    } catch {
+      // Unreadable entry; remove it so it cannot be served later
+      if (!dryRun) {
+        await rm(dir, { recursive: true, force: true }).catch(() => {});
+      }
+    }
+  }
+
+  let totalBytes = entries.reduce((sum, e) => sum + e.sizeBytes, 0);
+  entries.sort((a, b) => a.lastAccess - b.lastAccess);
+
+  for (const entry of entries) {
+    if (totalBytes <= maxBytes) break;
+    if (!dryRun) {
+      await rm(entry.dir, { recursive: true, force: true });
+    }
+    totalBytes -= entry.sizeBytes;
+    report.removed++;
+    report.freedBytes += entry.sizeBytes;
+  }
+
+  report.entries = entries.length - report.removed;
+  report.totalBytes = totalBytes;
+  return report;
+}
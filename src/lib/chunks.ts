@@ -0,0 +1,215 @@
+import type { RootContent } from 'mdast';
+import { toString } from 'mdast-util-to-string';
+import type { DetectedFormat } from '@/lib/converters';
+import { formInt } from '@/lib/numbers';
+import { parseMarkdown } from '@/lib/output';
+import { partMarker } from '@/lib/parts';
+import type { Chunk } from '@/lib/schemas';
+
+export interface ChunkOptions {
+  enabled: boolean;
+  // Size a chunk is filled up to, in approximate tokens
+  targetTokens: number;
+  // Tokens repeated from the end of the previous chunk of the same section
+  overlapTokens: number;
+}
+
+// One retrieval chunk; written one per line to <name>.chunks.jsonl
+export type { Chunk } from '@/lib/schemas';
+
+const DEFAULT_TARGET_TOKENS = 512;
+const DEFAULT_OVERLAP_TOKENS = 64;
+const MIN_TARGET_TOKENS = 64;
+const MAX_TARGET_TOKENS = 8192;
+
+// Hangul, kana and CJK ideographs come out at roughly one token per character
+const CJK = /[ᄀ-ᇿ぀-ヿ㄰-㆏㐀-䶿一-鿿가-힯]/g;
+
+type Location = Pick<Chunk, 'page' | 'slide' | 'sheet'>;
+
+// Form fields chunks, chunkSize and chunkOverlap
+export function parseChunkOptions(formData: FormData): ChunkOptions {
+  const targetTokens = formInt(formData.get('chunkSize'), DEFAULT_TARGET_TOKENS, MIN_TARGET_TOKENS, MAX_TARGET_TOKENS);
+  // More than half the target would make consecutive chunks mostly the same text
+  const maxOverlap = Math.floor(targetTokens / 2);
+  return {
+    enabled: (formData.get('chunks') as string | null)?.toLowerCase?.() === 'true',
+    targetTokens,
+    overlapTokens: formInt(formData.get('chunkOverlap'), Math.min(DEFAULT_OVERLAP_TOKENS, maxOverlap), 0, maxOverlap),
+  };
+}
+
+// Roughly what a BPE tokenizer makes of the text: ~4 characters per token for Latin
+// scripts, one per CJK character. Good enough for sizing, not for billing.
+export function estimateTokens(text: string): number {
+  const cjk = text.match(CJK)?.length ?? 0;
+  const rest = text.replace(CJK, '').replace(/\s+/g, ' ').trim().length;
+  return cjk + Math.ceil(rest / 4);
+}
+
+// Split converted markdown into chunks for retrieval. A chunk never crosses a heading, so
+// every chunk belongs to exactly one section; long sections are filled block by block up to
+// the target size and consecutive chunks of a section share `overlapTokens` of text.
+export function chunkMarkdown(
+  markdown: string,
+  options: ChunkOptions,
+  source: { id: string; name: string; format: DetectedFormat }
+): Chunk[] {
+  const tree = parseMarkdown(markdown);
+  const chunks: Chunk[] = [];
+  const headings: { depth: number; title: string }[] = [];
+  const location: Location = {};
+
+  let parts: string[] = [];
+  let partLocation: Location = {};
+  // Blocks in the current chunk besides its heading and overlap
+  let filled = 0;
+  let overlap = '';
+
+  const push = (text: string) => {
+    const trimmed = text.trim();
+    if (!trimmed) return;
+    chunks.push({
+      id: `${source.id}-${chunks.length}`,
+      index: chunks.length,
+      source: source.name,
+      text: trimmed,
+      headingPath: headings.map(h => h.title),
+      ...partLocation,
+      tokens: estimateTokens(trimmed),
+    });
+  };
+
+  const flush = (keepOverlap: boolean) => {
+    // A heading with nothing under it before the next heading is not worth a chunk
+    if (filled > 0) {
+      const text = parts.join('\n\n');
+      push(text);
+      overlap = keepOverlap ? tail(text, options.overlapTokens) : '';
+    } else if (!keepOverlap) {
+      overlap = '';
+    }
+    parts = [];
+    filled = 0;
+  };
+
+  const add = (text: string) => {
+    if (parts.length === 0) {
+      partLocation = { ...location };
+      if (overlap) parts.push(overlap);
+    }
+    parts.push(text);
+  };
+
+  // Measured the way the chunk's `tokens` will be, joining whitespace included
+  const fits = (text: string) => estimateTokens([...parts, text].join('\n\n')) <= options.targetTokens;
+
+  // Every chunk after the first of a section starts with the overlap, so blocks are cut to
+  // leave room for it and for the blank line joining them
+  const blockBudget = options.overlapTokens > 0 ? options.targetTokens - options.overlapTokens - 1 : options.targetTokens;
+
+  for (const node of tree.children) {
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    if (start === undefined || end === undefined || node.type === 'definition') continue;
+    const text = markdown.slice(start, end);
+
+    // A new page, slide or sheet starts a new chunk so its location stays accurate
+    if (updateLocation(node, source.format, location) && node.type !== 'heading') {
+      flush(true);
+    }
+
+    if (node.type === 'heading') {
+      // A new section starts; the previous one is not carried over into it
+      flush(false);
+      while (headings.length > 0 && headings[headings.length - 1].depth >= node.depth) headings.pop();
+      headings.push({ depth: node.depth, title: toString(node, { includeHtml: false }).trim() });
+      add(text);
+      continue;
+    }
+
+    // A single block (long paragraph, big table) larger than the budget is cut into pieces.
+    // The first block under a heading also has to fit next to the heading.
+    const room = filled === 0 && parts.length > 0
+      ? options.targetTokens - estimateTokens(parts.join('\n\n')) - 1
+      : options.targetTokens;
+    const limit = Math.max(1, Math.min(blockBudget, room));
+    const pieces = estimateTokens(text) > limit ? splitBlock(text, limit) : [text];
+    for (const piece of pieces) {
+      if (filled > 0 && !fits(piece)) flush(true);
+      add(piece);
+      filled++;
+    }
+  }
+  flush(false);
+
+  return chunks;
+}
+
+function updateLocation(node: RootContent, format: DetectedFormat, location: Location): boolean {
+  const marker = partMarker(node, format);
+  if (!marker) return false;
+  if (marker.kind === 'sheets') location.sheet = String(marker.value);
+  else if (marker.kind === 'slides') location.slide = Number(marker.value);
+  else location.page = Number(marker.value);
+  return true;
+}
+
+// Running totals below add one token per joining space or line break: estimateTokens() of
+// the joined text never exceeds the sum of its parts plus that, and re-measuring the growing
+// text on every step would be quadratic
+
+// At most `tokens` worth of words from the end of a chunk, repeated at the start of the next one
+function tail(text: string, tokens: number): string {
+  if (tokens <= 0) return '';
+  const words = text.split(/\s+/).filter(Boolean);
+  let taken = 0;
+  let i = words.length;
+  while (i > 0) {
+    const next = taken + estimateTokens(words[i - 1]) + (taken > 0 ? 1 : 0);
+    if (next > tokens) break;
+    taken = next;
+    i--;
+  }
+  return words.slice(i).join(' ');
+}
+
+// Cut an oversized block into pieces of at most `targetTokens` on line breaks, falling back
+// to words for very long lines
+function splitBlock(text: string, targetTokens: number): string[] {
+  const pieces: string[] = [];
+  let current: string[] = [];
+  let currentTokens = 0;
+
+  const emit = () => {
+    if (current.length > 0) pieces.push(current.join('\n'));
+    current = [];
+    currentTokens = 0;
+  };
+
+  for (const line of text.split('\n')) {
+    const lineTokens = estimateTokens(line);
+    if (lineTokens > targetTokens) {
+      emit();
+      let words: string[] = [];
+      let wordTokens = 0;
+      for (const word of line.split(/\s+/).filter(Boolean)) {
+        const t = estimateTokens(word);
+        if (words.length > 0 && wordTokens + 1 + t > targetTokens) {
+          pieces.push(words.join(' '));
+          words = [];
+          wordTokens = 0;
+        }
+        wordTokens += words.length > 0 ? t + 1 : t;
+        words.push(word);
+      }
+      if (words.length > 0) pieces.push(words.join(' '));
+      continue;
+    }
+    if (current.length > 0 && currentTokens + 1 + lineTokens > targetTokens) emit();
+    currentTokens += current.length > 0 ? lineTokens + 1 : lineTokens;
+    current.push(line);
+  }
+  emit();
+  return pieces;
+}
@@ -0,0 +1,243 @@
+import { z } from 'zod';
+import {
+  BatchConversionResponse,
+  BatchFailure,
+  ConversionProgress,
+  ConversionResponse,
+  ConvertFields,
+  ErrorCode,
+  FormatsResponse,
+  JobSubmittedResponse,
+  JobSummary,
+  SessionResponse,
+  WebhookDelivery,
+  batchConversionResponseSchema,
+  batchFailureSchema,
+  conversionProgressSchema,
+  conversionResponseSchema,
+  errorBodySchema,
+  formatsResponseSchema,
+  jobResponseSchema,
+  jobSubmittedResponseSchema,
+  sessionResponseSchema,
+  webhookResponseSchema,
+} from '@/lib/schemas';
+
+// Typed client for the conversion API, used by the web interface. Responses are checked
+// against the schemas in schemas.ts, so a client and server that drifted apart fail loudly.
+
+export interface ClientOptions {
+  // Origin of the server, e.g. https://convert.example.com; leave empty for same-origin requests
+  baseUrl?: string;
+  // Sent as a bearer token; the web interface relies on its session cookie instead
+  apiKey?: string;
+  fetch?: typeof fetch;
+}
+
+// The conversion options, typed; sent as the text fields of the form
+export type ConversionOptions = Omit<ConvertFields, 'url'>;
+
+// A document to upload, or a URL for the server to download
+export type ConversionSource = File | { url: string };
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+}
+
+export interface StreamOptions extends RequestOptions {
+  onStage?: (progress: ConversionProgress) => void;
+}
+
+// An error answered by the API (or, for streams, sent as an `error` event)
+export class ConversionApiError extends Error {
+  // Absent when the response was not one of the API's error bodies, e.g. from a proxy
+  code?: ErrorCode;
+  // HTTP status; 200 for errors reported inside an event stream
+  status: number;
+  requestId?: string;
+  // Seconds to wait before retrying, from Retry-After (RATE_LIMITED, QUEUE_FULL)
+  retryAfter?: number;
+  // Set for BATCH_FAILED: why each file failed
+  batch?: BatchFailure;
+
+  constructor(message: string, status: number, body?: unknown) {
+    super(message);
+    this.name = 'ConversionApiError';
+    this.status = status;
+    const error = errorBodySchema.safeParse(body);
+    if (error.success) {
+      this.message = error.data.error;
+      this.code = error.data.code;
+      this.requestId = error.data.requestId;
+    }
+    const batch = batchFailureSchema.safeParse(body);
+    if (batch.success) {
+      this.batch = batch.data;
+    }
+  }
+}
+
+function parseBody<T>(schema: z.ZodType<T>, body: unknown, path: string): T {
+  const parsed = schema.safeParse(body);
+  if (!parsed.success) {
+    throw new Error(`Unexpected response from ${path}: ${z.prettifyError(parsed.error)}`);
+  }
+  return parsed.data;
+}
+
+function toFormData(source: ConversionSource | File[], options: ConversionOptions): FormData {
+  const formData = new FormData();
+  if (Array.isArray(source)) {
+    for (const file of source) formData.append('file', file);
+  } else if (source instanceof File) {
+    formData.append('file', source);
+  } else {
+    formData.append('url', source.url);
+  }
+  for (const [name, value] of Object.entries(options)) {
+    if (value !== undefined) formData.append(name, String(value));
+  }
+  return formData;
+}
+
+export class ConversionClient {
+  private baseUrl: string;
+  private apiKey?: string;
+  private fetch: typeof fetch;
+
+  constructor(options: ClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? '').replace(/\/+$/, '');
+    this.apiKey = options.apiKey;
+    // Browsers refuse a fetch that is called as a method of another object
+    this.fetch = options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  // Absolute URL of an API path, such as the downloadUrl of a result
+  url(path: string): string {
+    return /^[a-z][a-z\d+.-]*:/i.test(path) ? path : `${this.baseUrl}${path}`;
+  }
+
+  private async send(path: string, init: RequestInit = {}, authenticate = true): Promise<Response> {
+    const headers = new Headers(init.headers);
+    if (this.apiKey && authenticate) headers.set('Authorization', `Bearer ${this.apiKey}`);
+    const response = await this.fetch(this.url(path), { ...init, headers });
+    if (!response.ok) {
+      const body = await response.json().catch(() => undefined);
+      const error = new ConversionApiError(response.statusText || `Request failed with status ${response.status}`, response.status, body);
+      const retryAfter = Number.parseInt(response.headers.get('retry-after') ?? '', 10);
+      if (Number.isFinite(retryAfter)) error.retryAfter = retryAfter;
+      throw error;
+    }
+    return response;
+  }
+
+  private async request<T>(schema: z.ZodType<T>, path: string, init?: RequestInit): Promise<T> {
+    const response = await this.send(path, init);
+    return parseBody(schema, await response.json(), path);
+  }
+
+  // Convert one document
+  convert(source: ConversionSource, options: ConversionOptions = {}, request: RequestOptions = {}): Promise<ConversionResponse> {
+    return this.request(conversionResponseSchema, '/api/convert', {
+      method: 'POST',
+      body: toFormData(source, options),
+      signal: request.signal,
+    });
+  }
+
+  // Convert several documents into one ZIP. When every file fails, the ConversionApiError
+  // carries the per-file results in `batch`.
+  convertBatch(files: File[], options: ConversionOptions = {}, request: RequestOptions = {}): Promise<BatchConversionResponse> {
+    return this.request(batchConversionResponseSchema, '/api/convert', {
+      method: 'POST',
+      body: toFormData(files, options),
+      signal: request.signal,
+    });
+  }
+
+  // Convert one document over /api/convert/stream, reporting each stage as it happens
+  async convertStream(source: ConversionSource, options: ConversionOptions = {}, request: StreamOptions = {}): Promise<ConversionResponse> {
+    const path = '/api/convert/stream';
+    const response = await this.send(path, {
+      method: 'POST',
+      body: toFormData(source, options),
+      signal: request.signal,
+    });
+    if (!response.body) throw new Error('Streaming is not supported by this runtime');
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffer += value;
+
+      let boundary: number;
+      while ((boundary = buffer.indexOf('\n\n')) !== -1) {
+        const block = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary + 2);
+
+        let event = 'message';
+        let data = '';
+        for (const line of block.split('\n')) {
+          if (line.startsWith('event:')) event = line.slice(6).trim();
+          else if (line.startsWith('data:')) data += line.slice(5).trim();
+        }
+        if (!data) continue;
+
+        const payload: unknown = JSON.parse(data);
+        if (event === 'stage') {
+          request.onStage?.(parseBody(conversionProgressSchema, payload, path));
+        } else if (event === 'result') {
+          await reader.cancel();
+          return parseBody(conversionResponseSchema, payload, path);
+        } else if (event === 'error') {
+          await reader.cancel();
+          throw new ConversionApiError('Conversion failed', response.status, payload);
+        }
+      }
+    }
+
+    throw new Error('Connection closed before the conversion finished');
+  }
+
+  // Fetch the downloadUrl of a result. Download links are signed and may point at a bucket,
+  // so the API key is not sent along.
+  download(downloadUrl: string, request: RequestOptions = {}): Promise<Response> {
+    return this.send(downloadUrl, { signal: request.signal }, false);
+  }
+
+  submitJob(file: File, options: ConversionOptions = {}, request: RequestOptions = {}): Promise<JobSubmittedResponse> {
+    return this.request(jobSubmittedResponseSchema, '/api/jobs', {
+      method: 'POST',
+      body: toFormData(file, options),
+      signal: request.signal,
+    });
+  }
+
+  async getJob(id: string, request: RequestOptions = {}): Promise<JobSummary> {
+    const { job } = await this.request(jobResponseSchema, `/api/jobs/${encodeURIComponent(id)}`, { signal: request.signal });
+    return job;
+  }
+
+  // Throws NOT_READY until the job has finished, and the job's own error when it failed
+  getJobResult(id: string, request: RequestOptions = {}): Promise<ConversionResponse> {
+    return this.request(conversionResponseSchema, `/api/jobs/${encodeURIComponent(id)}/result`, { signal: request.signal });
+  }
+
+  // Delivery log of the callback for a job or for the webhookUrl of a result
+  async getWebhookDelivery(id: string, request: RequestOptions = {}): Promise<WebhookDelivery> {
+    const { delivery } = await this.request(webhookResponseSchema, `/api/webhooks/${encodeURIComponent(id)}`, { signal: request.signal });
+    return delivery;
+  }
+
+  getFormats(request: RequestOptions = {}): Promise<FormatsResponse> {
+    return this.request(formatsResponseSchema, '/api/formats', { signal: request.signal });
+  }
+
+  // Session cookie for the web interface when the server requires API keys
+  createSession(request: RequestOptions = {}): Promise<SessionResponse> {
+    return this.request(sessionResponseSchema, '/api/session', { method: 'POST', signal: request.signal });
+  }
+}
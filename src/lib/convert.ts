@@ -0,0 +1,695 @@
+import { writeFile, unlink, rm, readFile } from 'fs/promises';
+import { existsSync, createWriteStream } from 'fs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import archiver from 'archiver';
+import { cacheKey, readCache, writeCache } from '@/lib/cache';
+import { Chunk, ChunkOptions, chunkMarkdown, parseChunkOptions } from '@/lib/chunks';
+import {
+  DetectedFormat,
+  claimedFormats,
+  detectFormat,
+  extensionOf,
+  formatLabel,
+  getConverter,
+  isBuiltInConverter,
+} from '@/lib/converters';
+import {
+  DownloadMode,
+  contentTypeFor,
+  createDownloadUrl,
+  createPreviewImageUrls,
+  parseDownloadMode,
+} from '@/lib/downloads';
+import { ApiError } from '@/lib/errors';
+import { withFrontMatter } from '@/lib/frontmatter';
+import { localImageNames, rewriteImageLinks } from '@/lib/imagelinks';
+import {
+  EmbedReport,
+  ImageOptimizationReport,
+  ImageOptions,
+  embedImages,
+  getEmbedLimits,
+  optimizeImages,
+  parseImageOptions,
+  renameImageLinks,
+} from '@/lib/images';
+import { OUTPUT_EXTENSIONS, OutputFormat, parseOutputFormat, renderOutput } from '@/lib/output';
+import {
+  InvalidSelectionError,
+  PartSelection,
+  SelectionReport,
+  parsePartSelection,
+  selectParts,
+} from '@/lib/parts';
+import { writeManifest } from '@/lib/retention';
+import {
+  ConversionProgress,
+  ConversionResult,
+  ConversionStats,
+  convertFieldsSchema,
+} from '@/lib/schemas';
+import { artifactKey, getScratchDir, getStorage, imageKey } from '@/lib/storage';
+import { convertBuiltInInWorker, runWithLimits } from '@/lib/worker';
+
+// file2md itself only runs in the worker process (src/workers/convert-worker.mjs)
+import type { convert } from 'file2md';
+
+// What every converter returns; the built-in ones shape their output like file2md's
+export type File2mdResult = Awaited<ReturnType<typeof convert>>;
+
+export interface ConvertOptions {
+  preserveLayout: boolean;
+  extractImages: boolean;
+  extractCharts: boolean;
+  downloadMode: DownloadMode;
+  singleUse: boolean;
+  outputFormat: OutputFormat;
+  // Prepend YAML front matter to markdown downloads
+  frontMatter: boolean;
+  images: ImageOptions;
+  // Inline images as data: URIs so the markdown is self-contained
+  embedImages: boolean;
+  // Also split the document into retrieval chunks
+  chunks: ChunkOptions;
+  // Only keep these pages, slides or sheets
+  selection?: PartSelection;
+}
+
+// JSON bodies of the API are defined in schemas.ts
+export type { ConversionProgress, ConversionResult, ConversionStage, ConversionStats } from '@/lib/schemas';
+
+export type ProgressListener = (progress: ConversionProgress) => void;
+
+// A converted document whose temp upload and image directory are still in the scratch dir.
+// Callers must pass it to cleanupDocument() once they are done packaging it.
+export interface ConvertedDocument {
+  fileId: string;
+  // Name of the upload as sent by the client
+  sourceName: string;
+  originalName: string;
+  sanitizedFileName: string;
+  detectedFormat: DetectedFormat;
+  sourceSha256: string;
+  inputBytes: number;
+  tempFilePath: string;
+  imageDir: string;
+  result: File2mdResult;
+  // Stats recorded when a cached result was first produced
+  cachedStats?: ConversionStats;
+  imageOptimization?: ImageOptimizationReport;
+  selection?: SelectionReport;
+  // Storage keys written for this document; recorded in its retention manifest
+  storedKeys: string[];
+}
+
+// Anything but a multipart body is the client's mistake, not a server error
+export async function readFormData(request: Request): Promise<FormData> {
+  try {
+    return await request.formData();
+  } catch {
+    throw new ApiError('INVALID_REQUEST', 'Expected a multipart/form-data body');
+  }
+}
+
+// Reject option fields that are not what convertFieldsSchema allows. Empty fields count as absent.
+function validateConvertFields(formData: FormData): void {
+  const fields: Record<string, string> = {};
+  formData.forEach((value, name) => {
+    if (typeof value === 'string' && value.trim() !== '') fields[name] = value.trim();
+  });
+  const parsed = convertFieldsSchema.safeParse(fields);
+  if (!parsed.success) {
+    const problems = parsed.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`);
+    throw new ApiError('INVALID_REQUEST', problems.join('; '));
+  }
+}
+
+// Optional advanced options from client
+export function parseConvertOptions(formData: FormData): ConvertOptions {
+  validateConvertFields(formData);
+  let selection: PartSelection | undefined;
+  try {
+    selection = parsePartSelection(formData);
+  } catch (error) {
+    if (error instanceof InvalidSelectionError) throw new ApiError('INVALID_REQUEST', error.message);
+    throw error;
+  }
+
+  return {
+    preserveLayout: (formData.get('preserveLayout') as string | null)?.toLowerCase?.() === 'true',
+    extractImages: (formData.get('extractImages') as string | null)?.toLowerCase?.() !== 'false',
+    extractCharts: (formData.get('extractCharts') as string | null)?.toLowerCase?.() !== 'false',
+    downloadMode: parseDownloadMode(formData.get('downloadMode') as string | null),
+    singleUse: ((formData.get('singleUse') as string | null) ?? process.env.DOWNLOAD_SINGLE_USE)?.toLowerCase?.() === 'true',
+    outputFormat: parseOutputFormat(formData.get('outputFormat') as string | null),
+    frontMatter: (formData.get('frontMatter') as string | null)?.toLowerCase?.() === 'true',
+    images: parseImageOptions(formData),
+    embedImages: (formData.get('embedImages') as string | null)?.toLowerCase?.() === 'true',
+    chunks: parseChunkOptions(formData),
+    selection,
+  };
+}
+
+// 50MB limit
+export const MAX_SIZE = 50 * 1024 * 1024;
+
+// Validate file type and size (server-side). Client MIME types and extensions are only
+// claims; the format is detected from the bytes and must agree with them. The registered
+// converters (src/lib/converters) declare which extensions and types they stand for.
+// Returns the format detected from the file's contents.
+export async function validateUpload(file: File): Promise<DetectedFormat> {
+  if (typeof file.size === 'number' && file.size > MAX_SIZE) {
+    throw new ApiError('TOO_LARGE', 'File too large. Max 50MB.');
+  }
+
+  const claims = { name: file.name ?? '', type: file.type };
+  const { byExtension, byType } = claimedFormats(claims);
+  if (byExtension.length === 0 && byType.length === 0) {
+    throw new ApiError('UNSUPPORTED_TYPE', 'Unsupported file type');
+  }
+
+  const detected = detectFormat(Buffer.from(await file.arrayBuffer()), claims);
+  if (!detected) {
+    throw new ApiError('UNSUPPORTED_TYPE', 'Unsupported file type: the contents are not a supported document; see GET /api/formats');
+  }
+
+  const label = formatLabel(detected);
+  if (byExtension.length > 0 && !byExtension.includes(detected)) {
+    throw new ApiError('UNSUPPORTED_TYPE', `File contents do not match its extension: detected ${label}, but the file is named ${extensionOf(claims.name)}`);
+  }
+  if (byType.length > 0 && !byType.includes(detected)) {
+    throw new ApiError('UNSUPPORTED_TYPE', `File contents do not match its type: detected ${label}, but the file was sent as ${file.type}`);
+  }
+  return detected;
+}
+
+// Conversion, batch and artifact IDs end up in URLs that grant access, so they must not be guessable
+export function generateFileId(): string {
+  return randomUUID();
+}
+
+// Stop between stages once the client has gone away
+function throwIfCancelled(signal?: AbortSignal): void {
+  if (signal?.aborted) {
+    throw new ApiError('CANCELLED', 'The conversion was cancelled');
+  }
+}
+
+export async function convertDocument(
+  file: File,
+  options: ConvertOptions,
+  onProgress?: ProgressListener,
+  signal?: AbortSignal
+): Promise<ConvertedDocument> {
+  const tempDir = await getScratchDir();
+
+  // Generate unique file ID
+  const fileId = generateFileId();
+  // Sanitize filename by removing special characters
+  const sanitizedFileName = file.name.replace(/[^a-zA-Z0-9.-]/g, '_');
+  const originalName = sanitizedFileName.replace(/\.[^/.]+$/, ''); // Remove extension
+
+  const buffer = Buffer.from(await file.arrayBuffer());
+  const detectedFormat = detectFormat(buffer, { name: file.name, type: file.type });
+  const converter = detectedFormat ? getConverter(detectedFormat) : undefined;
+  if (!detectedFormat || !converter) {
+    throw new ApiError('UNSUPPORTED_TYPE', 'Unsupported file type');
+  }
+  checkSelectionKind(detectedFormat, options.selection);
+  const sourceSha256 = createHash('sha256').update(buffer).digest('hex');
+
+  // Save uploaded file temporarily; file2md picks its parser by extension, so make sure it has one
+  const tempName = sanitizedFileName.toLowerCase().endsWith(`.${detectedFormat}`)
+    ? sanitizedFileName
+    : `${sanitizedFileName}.${detectedFormat}`;
+  const tempFilePath = path.join(tempDir, `${fileId}-${tempName}`);
+  const imageDir = path.join(tempDir, `${fileId}-images`);
+
+  try {
+    throwIfCancelled(signal);
+    await writeFile(tempFilePath, buffer);
+    onProgress?.({ stage: 'received', message: 'Upload received', bytes: buffer.length });
+
+    const key = cacheKey(buffer, options, detectedFormat);
+    const hit = await readCache(key, imageDir);
+    if (hit) {
+      const imageCount = hit.result.images?.length || 0;
+      onProgress?.({ stage: 'parsing', message: 'Served from cache' });
+      onProgress?.({ stage: 'images', message: `Restored ${imageCount} cached image(s)`, imageCount });
+      return await optimizeDocumentImages(await selectDocumentParts({
+        fileId,
+        originalName,
+        sourceName: file.name,
+        sanitizedFileName,
+        detectedFormat,
+        sourceSha256,
+        inputBytes: buffer.length,
+        tempFilePath,
+        imageDir,
+        result: hit.result,
+        cachedStats: hit.stats,
+        storedKeys: [],
+      }, options), options, onProgress);
+    }
+
+    onProgress?.({ stage: 'parsing', message: 'Parsing document' });
+
+    const input = { filePath: tempFilePath, buffer, imageDir, options, signal };
+    let result: File2mdResult;
+    if (converter.isolated) {
+      result = await converter.convert({ ...input, checkpoint: () => throwIfCancelled(signal) });
+    } else if (isBuiltInConverter(converter)) {
+      result = await convertBuiltInInWorker(detectedFormat, { filePath: tempFilePath, imageDir, options }, signal);
+    } else {
+      result = await runWithLimits(checkpoint => converter.convert({ ...input, checkpoint }), signal);
+    }
+    throwIfCancelled(signal);
+
+    const imageCount = result.images?.length || 0;
+    onProgress?.({ stage: 'images', message: `Extracted ${imageCount} image(s)`, imageCount });
+
+    const doc: ConvertedDocument = {
+      fileId,
+      originalName,
+      sourceName: file.name,
+      sanitizedFileName,
+      detectedFormat,
+      sourceSha256,
+      inputBytes: buffer.length,
+      tempFilePath,
+      imageDir,
+      result,
+      storedKeys: [],
+    };
+    // The cache keeps the original images; optimization settings can differ per request
+    await writeCache(key, result, buildStats(doc));
+    return await optimizeDocumentImages(await selectDocumentParts(doc, options), options, onProgress);
+  } catch (error) {
+    // Clean up temporary files on error
+    await cleanupTempFiles(tempFilePath, imageDir);
+    throw error;
+  }
+}
+
+// Refuse a selection the format has no parts for before anything is converted
+function checkSelectionKind(format: DetectedFormat, selection?: PartSelection): void {
+  if (!selection) return;
+  const label = formatLabel(format);
+  const kind = getConverter(format)?.parts;
+  if (!kind) {
+    throw new ApiError('INVALID_REQUEST', `${label} documents have no pages, slides or sheets to select`);
+  }
+  if (selection.kind !== kind) {
+    throw new ApiError('INVALID_REQUEST', `${label} documents are selected by ${kind}, not ${selection.kind}`);
+  }
+}
+
+// Cut the markdown down to the requested pages/slides/sheets and drop the images only the
+// other parts used. PDF pages, slides and sheets that were not selected were already blanked
+// before conversion (see src/lib/partfiles.ts) and come out as empty markers; Word and HWP
+// pages only exist in the converted output, so for those this cut is all the selection does.
+async function selectDocumentParts(doc: ConvertedDocument, options: ConvertOptions): Promise<ConvertedDocument> {
+  const { selection } = options;
+  if (!selection) {
+    return doc;
+  }
+
+  const label = formatLabel(doc.detectedFormat);
+  const kind = selection.kind;
+  const selected = selectParts(doc.result.markdown, selection, doc.detectedFormat);
+  if (!selected) {
+    throw new ApiError('SELECTION_NOT_FOUND', `This ${label} document has no ${kind} boundaries to select from`);
+  }
+  if (selected.report.processed.length === 0) {
+    throw new ApiError(
+      'SELECTION_NOT_FOUND',
+      `None of the requested ${kind} (${selection.spec}) exist; the document has ${selected.report.total} ${kind}`
+    );
+  }
+
+  const names = localImageNames(selected.markdown);
+  const images: typeof doc.result.images = [];
+  for (const image of doc.result.images) {
+    const { savedPath: value } = image as { savedPath?: unknown };
+    const savedPath = typeof value === 'string' ? value : '';
+    if (savedPath !== '' && names.has(path.basename(savedPath))) {
+      images.push(image);
+    } else if (savedPath !== '') {
+      // Nothing may pick up a cut part's image from the scratch directory later on
+      await rm(path.join(doc.imageDir, path.basename(savedPath)), { force: true });
+    }
+  }
+  doc.result = { ...doc.result, markdown: selected.markdown, images };
+  doc.selection = selected.report;
+  return doc;
+}
+
+// Resize/re-encode/dedupe the extracted images when requested and keep the markdown links in step
+async function optimizeDocumentImages(
+  doc: ConvertedDocument,
+  options: ConvertOptions,
+  onProgress?: ProgressListener
+): Promise<ConvertedDocument> {
+  if (!options.images.optimize || doc.result.images.length === 0) {
+    return doc;
+  }
+
+  const { images, renames, report } = await optimizeImages(doc.result.images, options.images);
+  doc.result = { ...doc.result, images, markdown: renameImageLinks(doc.result.markdown, renames) };
+  doc.imageOptimization = report;
+  onProgress?.({
+    stage: 'images',
+    message: `Optimized ${report.optimized} image(s): ${report.bytesBefore} → ${report.bytesAfter} bytes`,
+    imageCount: images.length,
+  });
+  return doc;
+}
+
+// Convert one upload end to end: run file2md, write the artifact, clean up temp files
+export async function runConversion(
+  file: File,
+  options: ConvertOptions,
+  onProgress?: ProgressListener,
+  signal?: AbortSignal
+): Promise<ConversionResult> {
+  const doc = await convertDocument(file, options, onProgress, signal);
+
+  try {
+    throwIfCancelled(signal);
+    const packaged = await packageDocument(doc, options, onProgress);
+    const manifest = doc.storedKeys.length > 0 ? await writeManifest(doc.fileId, doc.storedKeys) : null;
+    onProgress?.({ stage: 'done', message: 'Conversion complete' });
+
+    return {
+      filename: packaged.filename,
+      hasImages: packaged.hasImages,
+      downloadUrl: packaged.downloadUrl,
+      markdown: packaged.markdown,
+      preview: packaged.preview,
+      embeddedImages: packaged.embeddedImages,
+      chunks: packaged.chunks,
+      imageCount: doc.result.images?.length || 0,
+      chartCount: doc.result.charts?.length || 0,
+      metadata: doc.result.metadata,
+      stats: buildStats(doc),
+      detectedFormat: doc.detectedFormat,
+      outputFormat: options.outputFormat,
+      expiresAt: manifest?.expiresAt,
+    };
+  } catch (error) {
+    // Nothing will ever link to what was stored before the failure
+    await discardStoredKeys(doc);
+    throw error;
+  } finally {
+    await cleanupDocument(doc);
+  }
+}
+
+export async function cleanupDocument(doc: ConvertedDocument): Promise<void> {
+  await cleanupTempFiles(doc.tempFilePath, doc.imageDir);
+}
+
+// Remove the images and artifact already stored for a conversion that then failed
+export async function discardStoredKeys(doc: ConvertedDocument): Promise<void> {
+  const storage = getStorage();
+  await Promise.all(doc.storedKeys.map(key => storage.delete(key).catch(() => {})));
+  doc.storedKeys = [];
+}
+
+// Build extra stats for UI
+export function buildStats(doc: ConvertedDocument): ConversionStats {
+  if (doc.cachedStats) {
+    return { ...doc.cachedStats, cached: true, imageOptimization: doc.imageOptimization, selection: doc.selection };
+  }
+
+  const { result, inputBytes } = doc;
+  const markdownBytes = Buffer.byteLength(result.markdown || '', 'utf-8');
+  return {
+    inputBytes,
+    markdownBytes,
+    compressionRatio: inputBytes > 0 ? Number((markdownBytes / inputBytes).toFixed(2)) : null,
+    imageCount: result.images?.length || 0,
+    chartCount: result.charts?.length || 0,
+    processingTimeMs: ((): number | undefined => {
+      const md = result.metadata as unknown;
+      if (md && typeof md === 'object' && 'processingTime' in md) {
+        const val = (md as { processingTime?: unknown }).processingTime;
+        return typeof val === 'number' ? val : undefined;
+      }
+      return undefined;
+    })(),
+    cached: false,
+    imageOptimization: doc.imageOptimization,
+    selection: doc.selection,
+  };
+}
+
+// Persist extracted images to storage (images/<fileId>/<name>) and collect browser URLs for them:
+// the storage backend's own URL when it has one, otherwise the signed /api/preview route.
+// IMPORTANT: Do this BEFORE cleanupDocument() removes the scratch image directory
+export async function storeImages(doc: ConvertedDocument): Promise<Map<string, string | null>> {
+  const storage = getStorage();
+  const urls = new Map<string, string | null>();
+  const previewUrl = createPreviewImageUrls(doc.fileId);
+
+  for (const image of doc.result.images) {
+    const savedPath = typeof image.savedPath === 'string' ? image.savedPath : '';
+    if (!savedPath) continue;
+
+    const imageName = path.basename(savedPath);
+    try {
+      const key = imageKey(doc.fileId, imageName);
+      await storage.putFile(key, savedPath);
+      doc.storedKeys.push(key);
+      urls.set(imageName, (await storage.publicUrl(key)) ?? previewUrl(imageName));
+    } catch {
+      // Continue with other images instead of failing completely
+      urls.set(imageName, null);
+    }
+  }
+
+  return urls;
+}
+
+// Rewrite markdown image links for preview to point at the stored copies
+export function buildLinkedPreview(markdown: string, imageUrls: Map<string, string | null>): string {
+  return rewriteImageLinks(markdown, name => imageUrls.get(name) ?? undefined);
+}
+
+export interface PackagedDocument {
+  filename: string;
+  hasImages: boolean;
+  downloadUrl: string;
+  markdown: string;
+  preview?: string;
+  embeddedImages?: EmbedReport;
+  chunks?: Chunk[];
+}
+
+// Write the downloadable artifact for a single document and build its preview
+export async function packageDocument(
+  doc: ConvertedDocument,
+  options: ConvertOptions,
+  onProgress?: ProgressListener
+): Promise<PackagedDocument> {
+  const { fileId, originalName } = doc;
+  const { outputFormat } = options;
+  const exported = await prepareExport(doc, options);
+  const hasImages = exported.images.length > 0;
+  const zipped = hasImages || exported.chunks !== undefined;
+
+  // ZIP with the document, images and chunks, or the document alone; ensure unique filename
+  const filename = `${originalName}__${fileId}.${zipped ? 'zip' : OUTPUT_EXTENSIONS[outputFormat]}`;
+  const artifactPath = path.join(await getScratchDir(), filename);
+
+  try {
+    if (zipped) {
+      await createZipFile(artifactPath, [{
+        markdown: exported.markdown,
+        originalName,
+        images: exported.images,
+        outputFormat,
+        chunks: exported.chunks,
+      }]);
+      onProgress?.({ stage: 'zip', message: 'ZIP archive built' });
+    } else {
+      await writeFile(artifactPath, renderOutput(exported.markdown, outputFormat, originalName), 'utf-8');
+    }
+  } catch (error) {
+    // Don't leave a half-written archive in the scratch dir
+    await rm(artifactPath, { force: true });
+    throw error;
+  }
+
+  const published = await publishArtifact(artifactPath, options);
+  if (published.key) {
+    doc.storedKeys.push(published.key);
+  }
+
+  const markdown = await buildPreviewMarkdown(doc);
+  return {
+    filename,
+    hasImages,
+    downloadUrl: published.downloadUrl,
+    markdown,
+    preview: outputFormat === 'markdown' ? undefined : renderOutput(markdown, outputFormat, originalName),
+    embeddedImages: exported.embedded,
+    chunks: exported.chunks,
+  };
+}
+
+export interface ExportedDocument {
+  markdown: string;
+  // Images that ship as files next to the document
+  images: { savedPath: string }[];
+  embedded?: EmbedReport;
+  chunks?: Chunk[];
+}
+
+// The markdown and image files that go into the download. Front matter only applies to
+// markdown output; the other formats are rendered from the plain document. Chunks are cut
+// from the plain markdown too, so they carry neither front matter nor inlined images.
+export async function prepareExport(doc: ConvertedDocument, options: ConvertOptions): Promise<ExportedDocument> {
+  const chunks = options.chunks.enabled
+    ? chunkMarkdown(doc.result.markdown, options.chunks, {
+      id: doc.sourceSha256.slice(0, 16),
+      name: doc.sourceName,
+      format: doc.detectedFormat,
+    })
+    : undefined;
+
+  let markdown = doc.result.markdown;
+  if (options.frontMatter && options.outputFormat === 'markdown') {
+    markdown = withFrontMatter(markdown, {
+      sourceName: doc.sourceName,
+      detectedFormat: doc.detectedFormat,
+      sourceSha256: doc.sourceSha256,
+      metadata: doc.result.metadata,
+    });
+  }
+
+  if (!options.embedImages || doc.result.images.length === 0) {
+    return { markdown, images: [...doc.result.images], chunks };
+  }
+  const embedded = await embedImages(markdown, [...doc.result.images], getEmbedLimits());
+  return { markdown: embedded.markdown, images: embedded.external, embedded: embedded.report, chunks };
+}
+
+export interface PublishedArtifact {
+  downloadUrl: string;
+  // Storage key of the artifact; absent for inline data URLs
+  key?: string;
+}
+
+// Move a finished artifact out of the scratch dir and return its download URL:
+// a signed /api/download link by default, an inline data URL only when explicitly requested
+export async function publishArtifact(artifactPath: string, options: ConvertOptions): Promise<PublishedArtifact> {
+  if (options.downloadMode === 'dataurl') {
+    return { downloadUrl: await artifactToDataUrl(artifactPath) };
+  }
+
+  const filename = path.basename(artifactPath);
+  const key = artifactKey(filename);
+  try {
+    await getStorage().putFile(key, artifactPath, contentTypeFor(filename));
+  } finally {
+    await rm(artifactPath, { force: true });
+  }
+  return { downloadUrl: createDownloadUrl(filename, options.singleUse), key };
+}
+
+export async function buildPreviewMarkdown(doc: ConvertedDocument): Promise<string> {
+  const { result } = doc;
+  if (result.images.length === 0) {
+    return result.markdown;
+  }
+
+  // Images that could not be stored keep their relative link and show as broken in the preview
+  return buildLinkedPreview(result.markdown, await storeImages(doc));
+}
+
+// One document inside a ZIP. `folder` nests it (used for batch archives).
+export interface ZipEntry {
+  markdown: string;
+  originalName: string;
+  images: { savedPath: string }[];
+  folder?: string;
+  // Format the markdown is written in; defaults to markdown
+  outputFormat?: OutputFormat;
+  // Written next to the document as <name>.chunks.jsonl
+  chunks?: Chunk[];
+}
+
+export async function createZipFile(zipPath: string, entries: ZipEntry[]): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const output = createWriteStream(zipPath);
+    const archive = archiver('zip', { zlib: { level: 9 } });
+
+    output.on('close', () => resolve());
+    archive.on('error', (err) => reject(err));
+
+    archive.pipe(output);
+
+    for (const entry of entries) {
+      const prefix = entry.folder ? `${entry.folder}/` : '';
+
+      // Add the converted document
+      const format = entry.outputFormat ?? 'markdown';
+      archive.append(renderOutput(entry.markdown, format, entry.originalName), {
+        name: `${prefix}${entry.originalName}.${OUTPUT_EXTENSIONS[format]}`,
+      });
+
+      if (entry.chunks) {
+        archive.append(entry.chunks.map(chunk => JSON.stringify(chunk)).join('\n') + '\n', {
+          name: `${prefix}${entry.originalName}.chunks.jsonl`,
+        });
+      }
+
+      for (const image of entry.images) {
+        const savedPath = typeof image.savedPath === 'string' ? image.savedPath : '';
+        if (!savedPath) continue;
+
+        const absImagePath = path.resolve(savedPath);
+        const imageName = path.basename(absImagePath);
+        // Trust that file exists - fs.writeFileSync throws if it fails
+        // Using existsSync creates race conditions with Sharp buffer writes
+        try {
+          archive.file(absImagePath, { name: `${prefix}images/${imageName}` });
+        } catch {
+          // Failed to add image to ZIP
+        }
+      }
+    }
+
+    archive.finalize();
+  });
+}
+
+// Read a finished artifact back as a data URL and remove it from disk
+export async function artifactToDataUrl(artifactPath: string): Promise<string> {
+  const base64 = (await readFile(artifactPath)).toString('base64');
+
+  // The data URL replaces the stored artifact
+  await unlink(artifactPath);
+
+  const mime = contentTypeFor(artifactPath).split(';')[0];
+  return `data:${mime};base64,${base64}`;
+}
+
+export async function cleanupTempFiles(tempFilePath: string, imageDir: string): Promise<void> {
+  try {
+    // Remove temp file
+    if (existsSync(tempFilePath)) {
+      await unlink(tempFilePath);
+    }
+
+    // Remove image directory and its contents using robust rm
+    if (existsSync(imageDir)) {
+      await rm(imageDir, { recursive: true, force: true });
+    }
+  } catch {
+    // Cleanup error occurred
+    // Don't throw - cleanup errors shouldn't break the main flow
+  }
+}
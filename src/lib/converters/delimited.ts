@@ -0,0 +1,96 @@
+import type { Table } from 'mdast';
+import { stringifyMarkdown } from '@/lib/output';
+import { looksLikeText } from '@/lib/sniff';
+import { markdownResult } from './result';
+import { readText } from './text';
+import type { Converter } from './types';
+
+// RFC 4180: fields may be quoted, quotes inside are doubled, quoted fields may span lines.
+// Excel writes TSV the same way, so both share the parser.
+export function parseDelimited(text: string, delimiter: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n') {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  // Blank lines carry no data
+  return rows.filter(r => r.length > 1 || r[0].trim() !== '');
+}
+
+// Large files have too many rows to spread into Math.max
+function columnCount(rows: string[][]): number {
+  return rows.reduce((max, row) => Math.max(max, row.length), 0);
+}
+
+// The first row becomes the header, as spreadsheet exports usually have one
+function tableToMarkdown(rows: string[][]): string {
+  if (rows.length === 0) return '';
+  const width = columnCount(rows);
+  const table: Table = {
+    type: 'table',
+    children: rows.map(row => ({
+      type: 'tableRow',
+      children: Array.from({ length: width }, (_, i) => {
+        // Table cells cannot hold line breaks
+        const value = (row[i] ?? '').replace(/\s*\n\s*/g, ' ').trim();
+        return { type: 'tableCell' as const, children: value ? [{ type: 'text' as const, value }] : [] };
+      }),
+    })),
+  };
+  return stringifyMarkdown({ type: 'root', children: [table] });
+}
+
+function delimitedConverter(format: string, label: string, delimiter: string, extensions: string[], mimeTypes: string[]): Converter {
+  return {
+    format,
+    label,
+    extensions,
+    mimeTypes,
+    // Any text parses as a table; the extension or MIME type picks these over plain text
+    detect: looksLikeText,
+    async convert({ buffer, checkpoint }) {
+      const startedAt = Date.now();
+      const rows = parseDelimited(readText(buffer, label), delimiter);
+      checkpoint();
+      return markdownResult(tableToMarkdown(rows), { label, bytes: buffer.length, startedAt }, {
+        rows: Math.max(0, rows.length - 1),
+        columns: columnCount(rows),
+      });
+    },
+  };
+}
+
+export const delimitedConverters: Converter[] = [
+  // Windows browsers send .csv files as application/vnd.ms-excel
+  delimitedConverter('csv', 'CSV', ',', ['.csv'], ['text/csv', 'application/csv', 'application/vnd.ms-excel', 'text/plain']),
+  delimitedConverter('tsv', 'TSV', '\t', ['.tsv', '.tab'], ['text/tab-separated-values', 'text/plain']),
+];
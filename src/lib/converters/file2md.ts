@@ -0,0 +1,101 @@
+import { ZIP_MAGIC, readZipText } from '@/lib/sniff';
+import { convertInWorker } from '@/lib/worker';
+import type { Converter, ConverterInput } from './types';
+
+const PDF_MAGIC = Buffer.from('%PDF-', 'ascii');
+const CFB_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+
+// First bytes of the FileHeader stream in every HWP 5.x document
+const HWP_SIGNATURE = Buffer.from('HWP Document File', 'ascii');
+const HWPX_MIMETYPE = 'application/hwp+zip';
+
+// PDF readers accept junk before the header, so look a little past the start
+const PDF_HEADER_WINDOW = 1024;
+
+// Office Open XML packages name their main part's content type in [Content_Types].xml
+function ooxmlMainPart(contentType: string): (buffer: Buffer) => boolean {
+  return buffer => readZipText(buffer, '[Content_Types].xml')?.includes(`"${contentType}"`) ?? false;
+}
+
+// file2md runs in a worker process that is killed on timeout or cancellation. Selected
+// pages, slides and sheets are passed along so the worker can leave the others out.
+function convertWithFile2md({ filePath, imageDir, options, signal }: ConverterInput) {
+  return convertInWorker(filePath, {
+    imageDir: imageDir,    // For legacy mode (DOCX, etc.)
+    outputDir: imageDir,   // For slide screenshots (PPTX)
+    preserveLayout: options.preserveLayout || true,
+    extractImages: options.extractImages,
+    extractCharts: options.extractCharts,
+  }, signal, options.selection);
+}
+
+// The formats file2md converts
+export const file2mdConverters: Converter[] = [
+  {
+    format: 'pdf',
+    label: 'PDF',
+    extensions: ['.pdf'],
+    mimeTypes: ['application/pdf'],
+    magic: [PDF_MAGIC],
+    magicWindow: PDF_HEADER_WINDOW,
+    parts: 'pages',
+    isolated: true,
+    convert: convertWithFile2md,
+  },
+  {
+    format: 'docx',
+    label: 'Word (DOCX)',
+    extensions: ['.docx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.wordprocessingml.document', 'application/zip'],
+    magic: [ZIP_MAGIC],
+    detect: ooxmlMainPart('application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml'),
+    parts: 'pages',
+    isolated: true,
+    convert: convertWithFile2md,
+  },
+  {
+    format: 'xlsx',
+    label: 'Excel (XLSX)',
+    extensions: ['.xlsx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/zip'],
+    magic: [ZIP_MAGIC],
+    detect: ooxmlMainPart('application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml'),
+    parts: 'sheets',
+    isolated: true,
+    convert: convertWithFile2md,
+  },
+  {
+    format: 'pptx',
+    label: 'PowerPoint (PPTX)',
+    extensions: ['.pptx'],
+    mimeTypes: ['application/vnd.openxmlformats-officedocument.presentationml.presentation', 'application/zip'],
+    magic: [ZIP_MAGIC],
+    detect: ooxmlMainPart('application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml'),
+    parts: 'slides',
+    isolated: true,
+    convert: convertWithFile2md,
+  },
+  {
+    format: 'hwp',
+    label: 'HWP',
+    extensions: ['.hwp'],
+    mimeTypes: ['application/x-hwp', 'application/x-cfb'],
+    magic: [CFB_MAGIC],
+    // FileHeader is stored uncompressed, so its signature appears verbatim in the container
+    detect: buffer => buffer.includes(HWP_SIGNATURE),
+    parts: 'pages',
+    isolated: true,
+    convert: convertWithFile2md,
+  },
+  {
+    format: 'hwpx',
+    label: 'HWPX',
+    extensions: ['.hwpx'],
+    mimeTypes: ['application/x-hwpx', 'application/zip'],
+    magic: [ZIP_MAGIC],
+    detect: buffer => readZipText(buffer, 'mimetype')?.trim() === HWPX_MIMETYPE,
+    parts: 'pages',
+    isolated: true,
+    convert: convertWithFile2md,
+  },
+];
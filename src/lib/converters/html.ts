@@ -0,0 +1,55 @@
+import type { Root } from 'mdast';
+import rehypeParse from 'rehype-parse';
+import rehypeRemark from 'rehype-remark';
+import { unified } from 'unified';
+import { stringifyMarkdown } from '@/lib/output';
+import { textStart } from '@/lib/sniff';
+import { markdownResult } from './result';
+import { readText } from './text';
+import type { Converter } from './types';
+
+// The start of an HTML document or fragment; other text is left to the text converters
+const HTML_START = /^\s*(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<(!doctype\s+html|html|head|body|meta|title|div|p|h[1-6]|table|section|article)\b/i;
+
+interface HastNode {
+  type: string;
+  tagName?: string;
+  value?: string;
+  children?: HastNode[];
+}
+
+function findTitle(node: HastNode): string | undefined {
+  if (node.type === 'element' && node.tagName === 'title') {
+    const title = (node.children ?? []).map(child => child.value ?? '').join('').replace(/\s+/g, ' ').trim();
+    return title || undefined;
+  }
+  for (const child of node.children ?? []) {
+    const title = findTitle(child);
+    if (title) return title;
+  }
+  return undefined;
+}
+
+// rehype-remark drops scripts, styles and forms and keeps links and images as they are
+async function htmlToMarkdown(html: string, checkpoint: () => void): Promise<{ markdown: string; title?: string }> {
+  const processor = unified().use(rehypeParse).use(rehypeRemark);
+  const hast = processor.parse(html);
+  checkpoint();
+  const title = findTitle(hast as HastNode);
+  const mdast = await processor.run(hast) as Root;
+  checkpoint();
+  return { markdown: stringifyMarkdown(mdast), title };
+}
+
+export const htmlConverter: Converter = {
+  format: 'html',
+  label: 'HTML',
+  extensions: ['.html', '.htm', '.xhtml'],
+  mimeTypes: ['text/html', 'application/xhtml+xml'],
+  detect: buffer => HTML_START.test(textStart(buffer) ?? ''),
+  async convert({ buffer, checkpoint }) {
+    const startedAt = Date.now();
+    const { markdown, title } = await htmlToMarkdown(readText(buffer, 'HTML'), checkpoint);
+    return markdownResult(markdown, { label: 'HTML', bytes: buffer.length, startedAt }, title ? { title } : {});
+  },
+};
@@ -0,0 +1,120 @@
+import { hasMagic } from '@/lib/sniff';
+import { delimitedConverters } from './delimited';
+import { file2mdConverters } from './file2md';
+import { htmlConverter } from './html';
+import { odtConverter } from './odt';
+import { textConverter } from './text';
+import type { Converter, DetectedFormat, FormatInfo } from './types';
+
+export type { Converter, ConverterInput, DetectedFormat, FormatInfo } from './types';
+
+// Detection order: binary formats first; almost any text matches the text formats, and plain
+// text comes before CSV/TSV so a file without a claim is converted as text
+const BUILT_IN_CONVERTERS: Converter[] = [
+  ...file2mdConverters,
+  odtConverter,
+  htmlConverter,
+  textConverter,
+  ...delimitedConverters,
+];
+
+// What a client says the file is
+export interface FormatClaims {
+  name?: string;
+  type?: string;
+}
+
+const globalForConverters = globalThis as unknown as { file2mdConverters?: Converter[] };
+
+function registry(): Converter[] {
+  if (!globalForConverters.file2mdConverters) {
+    globalForConverters.file2mdConverters = [...BUILT_IN_CONVERTERS];
+  }
+  return globalForConverters.file2mdConverters;
+}
+
+// Add a converter, or replace the one registered for the same format. Added converters are
+// tried before the built-in ones when detecting a format.
+export function registerConverter(converter: Converter): void {
+  const converters = registry();
+  const existing = converters.findIndex(c => c.format === converter.format);
+  if (existing !== -1) {
+    converters[existing] = converter;
+  } else {
+    converters.unshift(converter);
+  }
+}
+
+// Built-in converters run in a worker process; ones added with registerConverter() cannot be
+// loaded there and run in the server process
+export function isBuiltInConverter(converter: Converter): boolean {
+  return BUILT_IN_CONVERTERS.includes(converter);
+}
+
+export function getConverters(): readonly Converter[] {
+  return registry();
+}
+
+export function getConverter(format: DetectedFormat): Converter | undefined {
+  return registry().find(c => c.format === format);
+}
+
+export function formatLabel(format: DetectedFormat): string {
+  return getConverter(format)?.label ?? format.toUpperCase();
+}
+
+function matches(converter: Converter, buffer: Buffer): boolean {
+  if (!converter.magic && !converter.detect) return false;
+  if (converter.magic && !converter.magic.some(magic => hasMagic(buffer, magic, converter.magicWindow))) {
+    return false;
+  }
+  return converter.detect ? converter.detect(buffer) : true;
+}
+
+export function extensionOf(name: string): string {
+  const lower = name.toLowerCase();
+  const dot = lower.lastIndexOf('.');
+  return dot === -1 ? '' : lower.slice(dot);
+}
+
+// Formats a file's extension and MIME type stand for; either list may be empty
+export function claimedFormats(claims: FormatClaims): { byExtension: DetectedFormat[]; byType: DetectedFormat[] } {
+  const extension = claims.name ? extensionOf(claims.name) : '';
+  const type = claims.type?.split(';')[0].trim().toLowerCase() ?? '';
+  const converters = registry();
+  return {
+    byExtension: extension ? converters.filter(c => c.extensions.includes(extension)).map(c => c.format) : [],
+    byType: type ? converters.filter(c => c.mimeTypes.includes(type)).map(c => c.format) : [],
+  };
+}
+
+// The format of a document, from its contents. When several converters recognise the bytes,
+// as text formats do, the one the extension (or else the MIME type) names wins.
+export function detectFormat(buffer: Buffer, claims: FormatClaims = {}): DetectedFormat | null {
+  const candidates = registry().filter(c => matches(c, buffer)).map(c => c.format);
+  const { byExtension, byType } = claimedFormats(claims);
+  return candidates.find(f => byExtension.includes(f))
+    ?? candidates.find(f => byType.includes(f))
+    ?? candidates[0]
+    ?? null;
+}
+
+// MIME types that name a supported document (possibly ambiguously)
+export function isDocumentType(type: string): boolean {
+  return registry().some(c => c.mimeTypes.includes(type));
+}
+
+export function listFormats(): FormatInfo[] {
+  return registry().map(({ format, label, extensions, mimeTypes, parts }) => ({ format, label, extensions, mimeTypes, parts }));
+}
+
+// react-dropzone's `accept` option: each format's own MIME type with its extensions
+export function acceptMap(): Record<string, string[]> {
+  const accept: Record<string, string[]> = {};
+  for (const converter of registry()) {
+    const [type] = converter.mimeTypes;
+    if (!type) continue;
+    accept[type] = Array.from(new Set([...(accept[type] ?? []), ...converter.extensions]));
+  }
+  return accept;
+}
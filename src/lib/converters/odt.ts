@@ -0,0 +1,355 @@
+import { mkdir, writeFile } from 'fs/promises';
+import path from 'path';
+import type { BlockContent, List, PhrasingContent, RootContent, Table, TableRow } from 'mdast';
+import type { Element, ElementContent, Root as XmlRoot } from 'xast';
+import { fromXml } from 'xast-util-from-xml';
+import { ApiError } from '@/lib/errors';
+import { stringifyMarkdown } from '@/lib/output';
+import { ZIP_MAGIC, ZipEntry, readZipDirectory, readZipEntry, readZipText } from '@/lib/sniff';
+import { ExtractedImage, markdownResult } from './result';
+import type { Converter } from './types';
+
+const ODT_MIMETYPE = 'application/vnd.oasis.opendocument.text';
+// content.xml inflates to many times the size of the package; a few MB is a book's worth of
+// text, and more would only run the worker into its time or memory limit
+const MAX_XML_BYTES = 5 * 1024 * 1024;
+const MAX_IMAGE_BYTES = 50 * 1024 * 1024;
+// Spreadsheet-style tables repeat empty cells and rows to the edge of the grid
+const MAX_REPEAT = 256;
+
+// Only these hold body text; everything else (sequence declarations, forms, tracked changes)
+// is skipped
+const SECTIONS = new Set(['text:section', 'text:index-body']);
+const INDEXES = new Set([
+  'text:table-of-content',
+  'text:alphabetical-index',
+  'text:illustration-index',
+  'text:table-index',
+  'text:object-index',
+  'text:user-index',
+  'text:bibliography',
+]);
+
+interface OdtContext {
+  buffer: Buffer;
+  entries: Map<string, ZipEntry>;
+  extractImages: boolean;
+  checkpoint: () => void;
+  // Package path of each extracted picture -> file name under images/
+  images: Map<string, { name: string; data: Buffer }>;
+  // List style name -> whether each level is numbered
+  numberedLevels: Map<string, boolean[]>;
+}
+
+function elements(nodes: (ElementContent | XmlRoot['children'][number])[]): Element[] {
+  return nodes.filter((node): node is Element => node.type === 'element');
+}
+
+function findElement(node: XmlRoot | Element, name: string): Element | undefined {
+  for (const child of elements(node.children)) {
+    if (child.name === name) return child;
+    const found = findElement(child, name);
+    if (found) return found;
+  }
+  return undefined;
+}
+
+function textOf(node: Element): string {
+  return node.children.map(child => child.type === 'text' ? child.value : child.type === 'element' ? textOf(child) : '').join('');
+}
+
+function attribute(node: Element, name: string): string | undefined {
+  return node.attributes[name] ?? undefined;
+}
+
+function repeatCount(node: Element, name: string): number {
+  const count = Number.parseInt(attribute(node, name) ?? '1', 10);
+  return Number.isInteger(count) && count > 1 ? Math.min(count, MAX_REPEAT) : 1;
+}
+
+// text:list-style elements of the automatic styles, by level
+function readListStyles(root: XmlRoot): Map<string, boolean[]> {
+  const styles = new Map<string, boolean[]>();
+  const visit = (node: XmlRoot | Element) => {
+    for (const child of elements(node.children)) {
+      if (child.name === 'text:list-style') {
+        const levels: boolean[] = [];
+        for (const level of elements(child.children)) {
+          const index = Number.parseInt(attribute(level, 'text:level') ?? '1', 10) - 1;
+          if (index >= 0 && index < 10) levels[index] = level.name === 'text:list-level-style-number';
+        }
+        styles.set(attribute(child, 'style:name') ?? '', levels);
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(root);
+  return styles;
+}
+
+function imageFor(frame: Element, context: OdtContext): PhrasingContent | null {
+  const image = findElement(frame, 'draw:image');
+  const href = image && attribute(image, 'xlink:href');
+  if (!context.extractImages || !href || /^[a-z]+:/i.test(href)) return null;
+
+  let extracted = context.images.get(href);
+  if (!extracted) {
+    context.checkpoint();
+    const entry = context.entries.get(href.replace(/^\.\//, ''));
+    const data = entry && readZipEntry(context.buffer, entry, MAX_IMAGE_BYTES);
+    if (!data) return null;
+    const name = `${context.images.size + 1}-${path.basename(href).replace(/[^a-zA-Z0-9._-]/g, '_')}`;
+    extracted = { name, data };
+    context.images.set(href, extracted);
+  }
+  const title = findElement(frame, 'svg:title') ?? findElement(frame, 'svg:desc');
+  return { type: 'image', url: `images/${extracted.name}`, alt: title ? textOf(title).trim() : '' };
+}
+
+// Inline content of a paragraph or heading. ODF collapses white space in text and spells out
+// extra spaces with <text:s/>.
+function inline(nodes: ElementContent[], context: OdtContext): PhrasingContent[] {
+  const result: PhrasingContent[] = [];
+  const pushText = (value: string) => {
+    const last = result[result.length - 1];
+    if (last?.type === 'text') last.value += value;
+    else result.push({ type: 'text', value });
+  };
+
+  for (const node of nodes) {
+    if (node.type === 'text') {
+      pushText(node.value.replace(/\s+/g, ' '));
+      continue;
+    }
+    if (node.type !== 'element') continue;
+
+    switch (node.name) {
+      case 'text:s':
+        pushText(' '.repeat(repeatCount(node, 'text:c')));
+        break;
+      case 'text:tab':
+        pushText(' ');
+        break;
+      case 'text:line-break':
+        result.push({ type: 'break' });
+        break;
+      case 'text:a': {
+        const url = attribute(node, 'xlink:href');
+        const children = inline(node.children, context);
+        if (url) result.push({ type: 'link', url, children });
+        else result.push(...children);
+        break;
+      }
+      case 'draw:frame': {
+        const image = imageFor(node, context);
+        if (image) result.push(image);
+        break;
+      }
+      // Footnotes, comments and change marks are not part of the running text
+      case 'text:note':
+      case 'office:annotation':
+      case 'text:tracked-changes':
+      case 'text:bookmark':
+      case 'text:bookmark-start':
+      case 'text:bookmark-end':
+      case 'text:soft-page-break':
+        break;
+      default:
+        for (const child of inline(node.children, context)) {
+          if (child.type === 'text') pushText(child.value);
+          else result.push(child);
+        }
+    }
+  }
+  return result;
+}
+
+function isEmpty(children: PhrasingContent[]): boolean {
+  return children.every(child => child.type === 'text' && child.value.trim() === '');
+}
+
+function list(node: Element, context: OdtContext, level: number, style?: string): List {
+  const styleName = attribute(node, 'text:style-name') ?? style;
+  const ordered = styleName ? context.numberedLevels.get(styleName)?.[level - 1] ?? false : false;
+  return {
+    type: 'list',
+    ordered,
+    spread: false,
+    children: elements(node.children)
+      .filter(item => item.name === 'text:list-item' || item.name === 'text:list-header')
+      .map(item => ({
+        type: 'listItem',
+        spread: false,
+        children: blocks(item.children, context, level + 1, styleName),
+      })),
+  };
+}
+
+function table(node: Element, context: OdtContext): Table | null {
+  const rows: PhrasingContent[][][] = [];
+  const collectRows = (parent: Element) => {
+    for (const child of elements(parent.children)) {
+      if (child.name === 'table:table-row') {
+        const cells: PhrasingContent[][] = [];
+        for (const cell of elements(child.children)) {
+          if (cell.name !== 'table:table-cell' && cell.name !== 'table:covered-table-cell') continue;
+          const content = cellContent(cell, context);
+          for (let i = repeatCount(cell, 'table:number-columns-repeated'); i > 0; i--) cells.push(content);
+        }
+        // Drop the padding cells that reach to the edge of the grid
+        while (cells.length > 0 && isEmpty(cells[cells.length - 1])) cells.pop();
+        if (cells.length === 0) continue;
+        for (let i = repeatCount(child, 'table:number-rows-repeated'); i > 0; i--) rows.push(cells);
+      } else if (child.name === 'table:table-header-rows' || child.name === 'table:table-rows' || child.name === 'table:table-row-group') {
+        collectRows(child);
+      }
+    }
+  };
+  collectRows(node);
+  if (rows.length === 0) return null;
+
+  const width = rows.reduce((max, row) => Math.max(max, row.length), 0);
+  return {
+    type: 'table',
+    children: rows.map((row): TableRow => ({
+      type: 'tableRow',
+      children: Array.from({ length: width }, (_, i) => ({ type: 'tableCell', children: row[i] ?? [] })),
+    })),
+  };
+}
+
+// Table cells hold paragraphs and lists; markdown cells are one line, so their text is joined
+function cellContent(cell: Element, context: OdtContext): PhrasingContent[] {
+  const content: PhrasingContent[] = [];
+  const visit = (node: Element) => {
+    for (const child of elements(node.children)) {
+      if (child.name === 'text:p' || child.name === 'text:h') {
+        const line = inline(child.children, context).filter(c => c.type !== 'break');
+        if (isEmpty(line)) continue;
+        if (content.length > 0) content.push({ type: 'text', value: ' ' });
+        content.push(...line);
+      } else {
+        visit(child);
+      }
+    }
+  };
+  visit(cell);
+  return content;
+}
+
+function blocks(nodes: ElementContent[], context: OdtContext, listLevel = 1, listStyle?: string): BlockContent[] {
+  const result: BlockContent[] = [];
+  for (const node of elements(nodes)) {
+    context.checkpoint();
+    if (node.name === 'text:h') {
+      const children = inline(node.children, context);
+      const level = Number.parseInt(attribute(node, 'text:outline-level') ?? '1', 10);
+      const depth = Math.min(Math.max(Number.isInteger(level) ? level : 1, 1), 6) as 1 | 2 | 3 | 4 | 5 | 6;
+      if (!isEmpty(children)) result.push({ type: 'heading', depth, children });
+    } else if (node.name === 'text:p') {
+      const children = inline(node.children, context);
+      if (!isEmpty(children)) result.push({ type: 'paragraph', children });
+    } else if (node.name === 'text:list') {
+      result.push(list(node, context, listLevel, listStyle));
+    } else if (node.name === 'table:table') {
+      const converted = table(node, context);
+      if (converted) result.push(converted);
+    } else if (SECTIONS.has(node.name)) {
+      result.push(...blocks(node.children, context, listLevel, listStyle));
+    } else if (INDEXES.has(node.name)) {
+      // The index template is not content; its rendered body is
+      const body = findElement(node, 'text:index-body');
+      if (body) result.push(...blocks(body.children, context, listLevel, listStyle));
+    }
+  }
+  return result;
+}
+
+function parseXml(xml: Buffer): XmlRoot {
+  try {
+    return fromXml(xml);
+  } catch (error) {
+    throw new ApiError('CORRUPT_FILE', 'The document could not be read; it may be damaged or incomplete', { cause: error });
+  }
+}
+
+// Front matter fields from meta.xml
+function readMetadata(buffer: Buffer, entries: Map<string, ZipEntry>): Record<string, unknown> {
+  const entry = entries.get('meta.xml');
+  const xml = entry && readZipEntry(buffer, entry);
+  if (!xml) return {};
+
+  let root: XmlRoot;
+  try {
+    root = fromXml(xml);
+  } catch {
+    return {};
+  }
+  const text = (name: string) => {
+    const node = findElement(root, name);
+    return node ? textOf(node).trim() || undefined : undefined;
+  };
+  const statistics = findElement(root, 'meta:document-statistic');
+  return {
+    title: text('dc:title'),
+    author: text('meta:initial-creator') ?? text('dc:creator'),
+    created: text('meta:creation-date'),
+    modified: text('dc:date'),
+    pages: statistics ? attribute(statistics, 'meta:page-count') : undefined,
+  };
+}
+
+export const odtConverter: Converter = {
+  format: 'odt',
+  label: 'OpenDocument Text (ODT)',
+  extensions: ['.odt'],
+  mimeTypes: [ODT_MIMETYPE, 'application/zip'],
+  magic: [ZIP_MAGIC],
+  detect: buffer => readZipText(buffer, 'mimetype')?.trim() === ODT_MIMETYPE,
+  async convert({ buffer, imageDir, options, checkpoint }) {
+    const startedAt = Date.now();
+    const entries = readZipDirectory(buffer);
+    const contentEntry = entries?.get('content.xml');
+    if (contentEntry && contentEntry.uncompressedSize > MAX_XML_BYTES) {
+      throw new ApiError('TOO_LARGE', `The document's text is larger than ${MAX_XML_BYTES / (1024 * 1024)}MB uncompressed`);
+    }
+    const xml = entries && contentEntry && readZipEntry(buffer, contentEntry, MAX_XML_BYTES);
+    if (!entries || !xml) {
+      throw new ApiError('CORRUPT_FILE', 'The document could not be read; it may be damaged or incomplete');
+    }
+
+    checkpoint();
+    const root = parseXml(xml);
+    checkpoint();
+    const context: OdtContext = {
+      buffer,
+      entries,
+      extractImages: options.extractImages,
+      checkpoint,
+      images: new Map(),
+      numberedLevels: readListStyles(root),
+    };
+    const body = findElement(root, 'office:text');
+    const children: RootContent[] = body ? blocks(body.children, context) : [];
+    checkpoint();
+
+    const images: ExtractedImage[] = [];
+    if (context.images.size > 0) {
+      await mkdir(imageDir, { recursive: true });
+      for (const [href, { name, data }] of context.images) {
+        checkpoint();
+        const savedPath = path.join(imageDir, name);
+        await writeFile(savedPath, data);
+        images.push({ originalPath: href, savedPath, size: data.length, format: path.extname(name).slice(1).toLowerCase() });
+      }
+    }
+
+    return markdownResult(
+      stringifyMarkdown({ type: 'root', children }),
+      { label: 'OpenDocument Text', bytes: buffer.length, startedAt },
+      readMetadata(buffer, entries),
+      images
+    );
+  },
+};
@@ -0,0 +1,31 @@
+import type { File2mdResult } from '@/lib/convert';
+
+export interface ExtractedImage {
+  originalPath: string;
+  savedPath: string;
+  size: number;
+  format: string;
+}
+
+// Shape a built-in converter's output like file2md's result, metadata included, so stats
+// and front matter read it the same way
+export function markdownResult(
+  markdown: string,
+  input: { label: string; bytes: number; startedAt: number },
+  metadata: Record<string, unknown> = {},
+  images: ExtractedImage[] = []
+): File2mdResult {
+  return {
+    markdown,
+    images,
+    charts: [],
+    metadata: {
+      fileType: input.label,
+      originalSize: input.bytes,
+      imageCount: images.length,
+      chartCount: 0,
+      processingTime: Date.now() - input.startedAt,
+      ...metadata,
+    },
+  } as File2mdResult;
+}
@@ -0,0 +1,47 @@
+import type { PhrasingContent, RootContent } from 'mdast';
+import { ApiError } from '@/lib/errors';
+import { stringifyMarkdown } from '@/lib/output';
+import { decodeText, looksLikeText } from '@/lib/sniff';
+import { markdownResult } from './result';
+import type { Converter } from './types';
+
+// The whole document as text; the detector only looked at its start
+export function readText(buffer: Buffer, label: string): string {
+  const text = decodeText(buffer);
+  if (text === null) {
+    throw new ApiError('CORRUPT_FILE', `The ${label} file is not valid UTF-8 or UTF-16 text`);
+  }
+  return text.replace(/\r\n?/g, '\n');
+}
+
+// Blank lines separate paragraphs; single line breaks are kept as hard breaks. Building the
+// tree instead of copying the text escapes characters markdown would otherwise interpret.
+function textToMarkdown(text: string): string {
+  const children: RootContent[] = text
+    .split(/\n[ \t]*\n/)
+    .map(block => block.trim())
+    .filter(Boolean)
+    .map(block => ({
+      type: 'paragraph',
+      children: block.split('\n').flatMap((line, i): PhrasingContent[] => i === 0
+        ? [{ type: 'text', value: line }]
+        : [{ type: 'break' }, { type: 'text', value: line }]),
+    }));
+  return stringifyMarkdown({ type: 'root', children });
+}
+
+export const textConverter: Converter = {
+  format: 'txt',
+  label: 'Plain text',
+  extensions: ['.txt', '.text'],
+  mimeTypes: ['text/plain'],
+  detect: looksLikeText,
+  async convert({ buffer, checkpoint }) {
+    const startedAt = Date.now();
+    const text = readText(buffer, 'text');
+    checkpoint();
+    return markdownResult(textToMarkdown(text), { label: 'Plain text', bytes: buffer.length, startedAt }, {
+      lines: text === '' ? 0 : text.split('\n').length,
+    });
+  },
+};
@@ -0,0 +1,45 @@
+import type { ConvertOptions, File2mdResult } from '@/lib/convert';
+import type { PartKind } from '@/lib/parts';
+
+// Id of a registered converter, e.g. "pdf" or "csv". Also the extension of the temp file the
+// document is written to and the `detectedFormat` reported to clients.
+export type DetectedFormat = string;
+
+export interface ConverterInput {
+  // The upload in the scratch dir, named with the format's extension
+  filePath: string;
+  buffer: Buffer;
+  // Where extracted images go; markdown links them as images/<name>
+  imageDir: string;
+  options: ConvertOptions;
+  signal?: AbortSignal;
+  // Throws TIMEOUT or CANCELLED once the conversion is out of time or the client went away.
+  // Converters running in the server process call it between steps; in a worker it does nothing.
+  checkpoint: () => void;
+}
+
+export interface Converter {
+  format: DetectedFormat;
+  label: string;
+  // Lower-case, with the dot
+  extensions: string[];
+  // MIME types clients send for the format; generic container types such as application/zip
+  // may be listed by several converters
+  mimeTypes: string[];
+  // The file must start with one of these (or contain one within the first `magicWindow` bytes)
+  magic?: Buffer[];
+  magicWindow?: number;
+  // Further check of the contents, after the magic bytes matched; text formats only have this
+  detect?: (buffer: Buffer) => boolean;
+  // Pages, slides or sheets the converted markdown marks, for part selection
+  parts?: PartKind;
+  // Starts its own worker process that enforces the time limit, memory cap and cancellation
+  // (file2md). The other built-in converters are run in a worker by convertDocument();
+  // registered ones run in the server process under runWithLimits().
+  isolated?: boolean;
+  // Produces the same result shape as file2md, so caching, images and packaging work unchanged
+  convert: (input: ConverterInput) => Promise<File2mdResult>;
+}
+
+// What GET /api/formats tells clients about a converter
+export type { FormatInfo } from '@/lib/schemas';
@@ -0,0 +1,167 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { ErrorCode } from '@/lib/errors';
+import { envInt } from '@/lib/numbers';
+import type { DownloadMode } from '@/lib/schemas';
+
+export type { DownloadMode } from '@/lib/schemas';
+
+// How long a signed download link stays valid; override with DOWNLOAD_TOKEN_TTL_SECONDS
+const DEFAULT_TOKEN_TTL_SECONDS = 60 * 60; // 1 hour
+
+// Artifact names are generated by the convert route: <name>__<fileId>.<ext>
+const ARTIFACT_NAME = /^[A-Za-z0-9._-]+\.(zip|md|html|txt|json)$/;
+// Conversion IDs and extracted image names used in preview URLs
+const PREVIEW_SEGMENT = /^[A-Za-z0-9._-]+$/;
+
+const CONTENT_TYPES: Record<string, string> = {
+  zip: 'application/zip',
+  md: 'text/markdown; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+  txt: 'text/plain; charset=utf-8',
+  json: 'application/json; charset=utf-8',
+};
+
+export type TokenCheck =
+  | { ok: true; singleUse: boolean; expiresAt: number }
+  | { ok: false; code: ErrorCode; error: string };
+
+const globalForDownloads = globalThis as unknown as {
+  file2mdDownloadSecret?: Buffer;
+  file2mdUsedDownloadTokens?: Map<string, number>;
+};
+
+function getSecret(): Buffer {
+  if (process.env.DOWNLOAD_TOKEN_SECRET) {
+    return Buffer.from(process.env.DOWNLOAD_TOKEN_SECRET, 'utf-8');
+  }
+  // Without a configured secret, links only survive until the server restarts
+  if (!globalForDownloads.file2mdDownloadSecret) {
+    globalForDownloads.file2mdDownloadSecret = randomBytes(32);
+  }
+  return globalForDownloads.file2mdDownloadSecret;
+}
+
+function getUsedTokens(): Map<string, number> {
+  if (!globalForDownloads.file2mdUsedDownloadTokens) {
+    globalForDownloads.file2mdUsedDownloadTokens = new Map();
+  }
+  return globalForDownloads.file2mdUsedDownloadTokens;
+}
+
+function getTokenTtlSeconds(): number {
+  return envInt('DOWNLOAD_TOKEN_TTL_SECONDS', DEFAULT_TOKEN_TTL_SECONDS, 1);
+}
+
+function sign(artifact: string, expiresAt: number, singleUse: boolean): string {
+  return createHmac('sha256', getSecret())
+    .update(`${artifact}\n${expiresAt}\n${singleUse ? 1 : 0}`)
+    .digest('base64url');
+}
+
+// Data URLs are only used when asked for explicitly (form field downloadMode or DOWNLOAD_MODE)
+export function parseDownloadMode(value: string | null | undefined): DownloadMode {
+  const mode = (value || process.env.DOWNLOAD_MODE || '').toLowerCase();
+  return mode === 'dataurl' ? 'dataurl' : 'link';
+}
+
+export function isArtifactName(name: string): boolean {
+  return ARTIFACT_NAME.test(name) && !name.includes('..');
+}
+
+// Token format: <expiresAt>.<s|m>.<signature>, where s = single use and m = multi use
+export function createDownloadUrl(artifact: string, singleUse = false): string {
+  const expiresAt = Math.floor(Date.now() / 1000) + getTokenTtlSeconds();
+  const token = `${expiresAt}.${singleUse ? 's' : 'm'}.${sign(artifact, expiresAt, singleUse)}`;
+  return `/api/download/${encodeURIComponent(artifact)}?token=${token}`;
+}
+
+export function verifyDownloadToken(artifact: string, token: string | null): TokenCheck {
+  if (!token) {
+    return { ok: false, code: 'UNAUTHORIZED', error: 'Missing download token' };
+  }
+
+  const [expiresRaw, flag, signature] = token.split('.');
+  const expiresAt = Number.parseInt(expiresRaw ?? '', 10);
+  if (!Number.isFinite(expiresAt) || (flag !== 's' && flag !== 'm') || !signature) {
+    return { ok: false, code: 'FORBIDDEN', error: 'Invalid download token' };
+  }
+
+  const singleUse = flag === 's';
+  const expected = Buffer.from(sign(artifact, expiresAt, singleUse));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, code: 'FORBIDDEN', error: 'Invalid download token' };
+  }
+
+  if (expiresAt * 1000 < Date.now()) {
+    return { ok: false, code: 'EXPIRED', error: 'Download link has expired' };
+  }
+
+  if (singleUse && getUsedTokens().has(signature)) {
+    return { ok: false, code: 'EXPIRED', error: 'Download link has already been used' };
+  }
+
+  return { ok: true, singleUse, expiresAt };
+}
+
+// Preview image links share one token per conversion: <expiresAt>.<signature>
+function signPreview(fileId: string, expiresAt: number): string {
+  return createHmac('sha256', getSecret())
+    .update(`preview\n${fileId}\n${expiresAt}`)
+    .digest('base64url');
+}
+
+export function isPreviewId(value: string): boolean {
+  return PREVIEW_SEGMENT.test(value) && !value.includes('..');
+}
+
+export function createPreviewImageUrls(fileId: string): (imageName: string) => string {
+  const expiresAt = Math.floor(Date.now() / 1000) + getTokenTtlSeconds();
+  const token = `${expiresAt}.${signPreview(fileId, expiresAt)}`;
+  return imageName => `/api/preview/${encodeURIComponent(fileId)}/images/${encodeURIComponent(imageName)}?token=${token}`;
+}
+
+export function verifyPreviewToken(fileId: string, token: string | null): TokenCheck {
+  if (!token) {
+    return { ok: false, code: 'UNAUTHORIZED', error: 'Missing preview token' };
+  }
+
+  const [expiresRaw, signature] = token.split('.');
+  const expiresAt = Number.parseInt(expiresRaw ?? '', 10);
+  const expected = Buffer.from(Number.isFinite(expiresAt) ? signPreview(fileId, expiresAt) : '');
+  const actual = Buffer.from(signature ?? '');
+  if (!signature || expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, code: 'FORBIDDEN', error: 'Invalid preview token' };
+  }
+
+  if (expiresAt * 1000 < Date.now()) {
+    return { ok: false, code: 'EXPIRED', error: 'Preview has expired' };
+  }
+  return { ok: true, singleUse: false, expiresAt };
+}
+
+// Spend a single-use token; false when it was already spent. Check and mark happen in one
+// synchronous step, so concurrent requests with the same token cannot both get through.
+// Entries are dropped once they would have expired anyway.
+export function consumeToken(token: string, expiresAt: number): boolean {
+  const used = getUsedTokens();
+  const now = Date.now();
+  for (const [sig, expiry] of used) {
+    if (expiry * 1000 < now) used.delete(sig);
+  }
+  const signature = token.split('.')[2];
+  if (used.has(signature)) return false;
+  used.set(signature, expiresAt);
+  return true;
+}
+
+export function contentTypeFor(name: string): string {
+  const ext = name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+  return CONTENT_TYPES[ext] ?? CONTENT_TYPES.md;
+}
+
+// RFC 6266 header with an ASCII fallback and the exact name in filename*
+export function contentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, '_');
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
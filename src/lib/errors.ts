@@ -0,0 +1,144 @@
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import type { ErrorBody, ErrorCode } from '@/lib/schemas';
+
+export type { ErrorBody, ErrorCode } from '@/lib/schemas';
+
+export const ERROR_STATUS: Record<ErrorCode, number> = {
+  INVALID_REQUEST: 400,
+  UNAUTHORIZED: 401,
+  FORBIDDEN: 403,
+  URL_NOT_ALLOWED: 403,
+  NOT_FOUND: 404,
+  NOT_READY: 409,
+  EXPIRED: 410,
+  TOO_LARGE: 413,
+  UNSUPPORTED_TYPE: 415,
+  ENCRYPTED_DOCUMENT: 422,
+  CORRUPT_FILE: 422,
+  SELECTION_NOT_FOUND: 422,
+  BATCH_FAILED: 422,
+  MEMORY_LIMIT: 422,
+  // Nobody reads it, the client is gone; 499 is the de facto "client closed request"
+  CANCELLED: 499,
+  RATE_LIMITED: 429,
+  INTERNAL: 500,
+  // The document server failed, not this one
+  FETCH_FAILED: 502,
+  QUEUE_FULL: 503,
+  TIMEOUT: 504,
+};
+
+export interface ApiErrorOptions {
+  // Extra fields merged into the JSON body
+  details?: Record<string, unknown>;
+  headers?: Record<string, string>;
+  cause?: unknown;
+}
+
+// Every error the API answers with. The status always follows from the code.
+export class ApiError extends Error {
+  code: ErrorCode;
+  status: number;
+  details?: Record<string, unknown>;
+  headers?: Record<string, string>;
+
+  constructor(code: ErrorCode, message: string, options: ApiErrorOptions = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ApiError';
+    this.code = code;
+    this.status = ERROR_STATUS[code];
+    this.details = options.details;
+    this.headers = options.headers;
+  }
+}
+
+// file2md and its parsers only throw plain Errors, so failures are recognised by their message
+const CLASSIFIERS: { pattern: RegExp; code: ErrorCode; message: string }[] = [
+  {
+    pattern: /password|encrypt/i,
+    code: 'ENCRYPTED_DOCUMENT',
+    message: 'The document is password protected or encrypted',
+  },
+  {
+    pattern: /timed? ?out\b|timeout/i,
+    code: 'TIMEOUT',
+    message: 'The conversion took too long and was stopped',
+  },
+  {
+    pattern: /corrupt|malformed|damaged|bad xref|invalid (pdf|zip|file|document|header|structure)|end of central directory|unexpected end|not a valid/i,
+    code: 'CORRUPT_FILE',
+    message: 'The document could not be read; it may be damaged or incomplete',
+  },
+  {
+    // Tree-walking parsers recurse once per nesting level
+    pattern: /maximum call stack size exceeded/i,
+    code: 'TOO_LARGE',
+    message: 'The document is nested too deeply to convert',
+  },
+];
+
+// Incoming X-Request-Id values are reused when they look sane, so IDs can be traced across proxies
+const REQUEST_ID = /^[\w.:-]{1,64}$/;
+
+const requestIds = new WeakMap<Request, string>();
+
+export function getRequestId(request: Request): string {
+  let id = requestIds.get(request);
+  if (!id) {
+    const incoming = request.headers.get('x-request-id');
+    id = incoming && REQUEST_ID.test(incoming) ? incoming : randomUUID();
+    requestIds.set(request, id);
+  }
+  return id;
+}
+
+// Map anything thrown while handling a request to an ApiError. Unknown failures become
+// INTERNAL and are logged with the request ID; their message is not sent to the client.
+export function toApiError(error: unknown, requestId?: string): ApiError {
+  if (error instanceof ApiError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const match = CLASSIFIERS.find(c => c.pattern.test(message));
+  if (match) {
+    return new ApiError(match.code, match.message, { cause: error });
+  }
+
+  console.error(`Request ${requestId ?? '-'} failed:`, error);
+  return new ApiError('INTERNAL', 'Internal server error', { cause: error });
+}
+
+// The JSON body for an error, also used for SSE error events and per-file batch results
+export function errorBody(error: ApiError, requestId: string): ErrorBody {
+  return { success: false, error: error.message, code: error.code, requestId, ...error.details };
+}
+
+export function errorResponse(request: Request, error: unknown): NextResponse {
+  const requestId = getRequestId(request);
+  const apiError = toApiError(error, requestId);
+  return NextResponse.json(errorBody(apiError, requestId), {
+    status: apiError.status,
+    headers: { ...apiError.headers, 'X-Request-Id': requestId },
+  });
+}
+
+// Wrap a route handler so thrown errors become error responses and every response
+// carries X-Request-Id
+export function withErrors<Req extends Request, Args extends unknown[]>(
+  handler: (request: Req, ...args: Args) => Promise<Response>
+): (request: Req, ...args: Args) => Promise<Response> {
+  return async (request, ...args) => {
+    let response: Response;
+    try {
+      response = await handler(request, ...args);
+    } catch (error) {
+      return errorResponse(request, error);
+    }
+    try {
+      response.headers.set('X-Request-Id', getRequestId(request));
+    } catch {
+      // Some responses (redirects) have immutable headers
+    }
+    return response;
+  };
+}
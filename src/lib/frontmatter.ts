@@ -0,0 +1,91 @@
+export interface FrontMatterInput {
+  sourceName: string;
+  detectedFormat: string;
+  sourceSha256: string;
+  metadata: Record<string, unknown> | undefined;
+  convertedAt?: Date;
+}
+
+// file2md's metadata differs per format, so each field is looked up under the names it may use
+const METADATA_FIELDS: Record<string, string[]> = {
+  title: ['title', 'Title'],
+  author: ['author', 'Author', 'creator', 'Creator'],
+  created: ['created', 'createdAt', 'creationDate', 'CreationDate', 'dateCreated'],
+  modified: ['modified', 'modifiedAt', 'modificationDate', 'ModDate', 'lastModified', 'dateModified'],
+  pages: ['pages', 'pageCount', 'totalPages', 'numPages'],
+  slides: ['slides', 'slideCount', 'totalSlides'],
+  sheets: ['sheets', 'sheetCount', 'totalSheets'],
+};
+
+const DATE_FIELDS = new Set(['created', 'modified']);
+const COUNT_FIELDS = new Set(['pages', 'slides', 'sheets']);
+
+function lookup(metadata: Record<string, unknown>, names: string[]): unknown {
+  for (const name of names) {
+    const value = metadata[name];
+    if (value !== undefined && value !== null && value !== '') return value;
+  }
+  return undefined;
+}
+
+// Malformed dates are left out rather than failing the conversion
+function isoDate(date: Date): string | undefined {
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString();
+}
+
+function toDate(value: unknown): string | undefined {
+  if (value instanceof Date) return isoDate(value);
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+
+  // PDF dates look like D:20240131120000+09'00'
+  const pdf = typeof value === 'string' && value.match(/^D:(\d{4})(\d{2})?(\d{2})?(\d{2})?(\d{2})?(\d{2})?/);
+  if (pdf) {
+    const [, y, mo = '01', d = '01', h = '00', mi = '00', s = '00'] = pdf;
+    return isoDate(new Date(`${y}-${mo}-${d}T${h}:${mi}:${s}Z`));
+  }
+  return isoDate(new Date(value));
+}
+
+function toCount(value: unknown): number | undefined {
+  if (Array.isArray(value)) return value.length;
+  const count = typeof value === 'number' ? value : Number.parseInt(String(value), 10);
+  return Number.isInteger(count) && count >= 0 ? count : undefined;
+}
+
+// Double-quoted JSON strings are valid YAML scalars, which keeps escaping simple
+function yamlValue(value: string | number): string {
+  return typeof value === 'number' ? String(value) : JSON.stringify(value);
+}
+
+// YAML front matter for downloaded markdown, so tools like Obsidian and Hugo can index the files
+export function buildFrontMatter(input: FrontMatterInput): string {
+  const fields: [string, string | number][] = [];
+  const metadata = input.metadata ?? {};
+
+  const title = lookup(metadata, METADATA_FIELDS.title);
+  fields.push(['title', typeof title === 'string' ? title.trim() : input.sourceName.replace(/\.[^/.]+$/, '')]);
+
+  for (const [field, names] of Object.entries(METADATA_FIELDS)) {
+    if (field === 'title') continue;
+    const raw = lookup(metadata, names);
+    if (raw === undefined) continue;
+
+    const value = DATE_FIELDS.has(field) ? toDate(raw)
+      : COUNT_FIELDS.has(field) ? toCount(raw)
+      : typeof raw === 'string' ? raw.trim() : undefined;
+    if (value !== undefined && value !== '') fields.push([field, value]);
+  }
+
+  fields.push(
+    ['source', input.sourceName],
+    ['format', input.detectedFormat],
+    ['converted', (input.convertedAt ?? new Date()).toISOString()],
+    ['sha256', input.sourceSha256],
+  );
+
+  return `---\n${fields.map(([key, value]) => `${key}: ${yamlValue(value)}`).join('\n')}\n---\n\n`;
+}
+
+export function withFrontMatter(markdown: string, input: FrontMatterInput): string {
+  return buildFrontMatter(input) + markdown;
+}
@@ -0,0 +1,203 @@
+import type { Definition, Nodes } from 'mdast';
+import { parseMarkdown } from '@/lib/output';
+
+// Where an image reference was found in the markdown
+export type ImageReferenceKind = 'image' | 'imageReference' | 'html';
+
+export interface ImageReference {
+  kind: ImageReferenceKind;
+  url: string;
+  alt?: string;
+}
+
+// What a rule wants done with a reference: point it somewhere else, or drop the image entirely
+export type ImageLinkAction = { url: string } | { remove: true };
+
+// Rules run in order; the first one returning an action wins, undefined leaves the reference alone
+export type ImageLinkRule = (ref: ImageReference) => ImageLinkAction | undefined;
+
+interface Edit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+const IMG_TAG = /<img\b[^>]*>/gi;
+const SRC_ATTR = /(\ssrc\s*=\s*)("([^"]*)"|'([^']*)'|([^\s"'>]+))/i;
+const LOCAL_IMAGE = /^(\.\/)?images\/(.+)$/;
+
+// Rewrite or remove image references found by parsing the markdown. Only the source ranges of
+// real image nodes (inline images, definitions used by image references, <img> tags in HTML)
+// are edited; every other character of the document is kept exactly as it was.
+export function rewriteImageReferences(markdown: string, rules: ImageLinkRule[]): string {
+  if (rules.length === 0) return markdown;
+
+  const tree = parseMarkdown(markdown);
+  const definitions = new Map<string, Definition>();
+  walk(tree, node => {
+    if (node.type === 'definition' && !definitions.has(node.identifier)) {
+      definitions.set(node.identifier, node);
+    }
+  });
+
+  const apply = (ref: ImageReference) => {
+    for (const rule of rules) {
+      const action = rule(ref);
+      if (action) return action;
+    }
+    return undefined;
+  };
+
+  const edits: Edit[] = [];
+  const editedDefinitions = new Set<Definition>();
+
+  walk(tree, node => {
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    if (start === undefined || end === undefined) return;
+
+    if (node.type === 'image') {
+      const action = apply({ kind: 'image', url: node.url, alt: node.alt ?? undefined });
+      if (!action) return;
+      if ('remove' in action) {
+        edits.push({ start, end, text: '' });
+        return;
+      }
+      const source = markdown.slice(start, end);
+      const label = bracketEnd(source, 2);
+      if (label === -1 || source[label + 1] !== '(') return;
+      const title = node.title ? ` ${JSON.stringify(node.title)}` : '';
+      edits.push({ start, end, text: `${source.slice(0, label + 1)}(${destination(action.url)}${title})` });
+    } else if (node.type === 'imageReference') {
+      const definition = definitions.get(node.identifier);
+      if (!definition) return;
+      const action = apply({ kind: 'imageReference', url: definition.url, alt: node.alt ?? undefined });
+      if (!action) return;
+      if ('remove' in action) {
+        edits.push({ start, end, text: '' });
+      } else if (!editedDefinitions.has(definition)) {
+        editedDefinitions.add(definition);
+        const edit = definitionEdit(markdown, definition, action.url);
+        if (edit) edits.push(edit);
+      }
+    } else if (node.type === 'html') {
+      edits.push(...htmlEdits(markdown, start, end, apply));
+    }
+  });
+
+  // Apply back to front so earlier offsets stay valid
+  let output = markdown;
+  for (const edit of edits.sort((a, b) => b.start - a.start)) {
+    output = output.slice(0, edit.start) + edit.text + output.slice(edit.end);
+  }
+  return output;
+}
+
+// Rule for the images/<name> links file2md writes. `target` gets the file name and the
+// optional "./" prefix and returns the new URL, or undefined to keep the link.
+export function localImageRule(target: (name: string, dot: string) => string | undefined): ImageLinkRule {
+  return ref => {
+    const match = ref.url.match(LOCAL_IMAGE);
+    if (!match) return undefined;
+    const [, dot = '', name] = match;
+    const url = target(name, dot) ?? target(safeDecode(name), dot);
+    return url ? { url } : undefined;
+  };
+}
+
+// Shorthand for the common case of a single local image rule
+export function rewriteImageLinks(markdown: string, target: (name: string, dot: string) => string | undefined): string {
+  return rewriteImageReferences(markdown, [localImageRule(target)]);
+}
+
+// Names of the images/<name> files the markdown links to, both as written and URL-decoded
+export function localImageNames(markdown: string): Set<string> {
+  const names = new Set<string>();
+  rewriteImageReferences(markdown, [ref => {
+    const match = ref.url.match(LOCAL_IMAGE);
+    if (match) names.add(match[2]).add(safeDecode(match[2]));
+    return undefined;
+  }]);
+  return names;
+}
+
+function walk(node: Nodes, visit: (node: Nodes) => void): void {
+  visit(node);
+  if ('children' in node) {
+    for (const child of node.children) walk(child, visit);
+  }
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+// Index of the "]" closing the bracket opened just before `from`, honouring nesting and escapes
+function bracketEnd(source: string, from: number): number {
+  let depth = 0;
+  for (let i = from; i < source.length; i++) {
+    const c = source[i];
+    if (c === '\\') i++;
+    else if (c === '[') depth++;
+    else if (c === ']') {
+      if (depth === 0) return i;
+      depth--;
+    }
+  }
+  return -1;
+}
+
+// Wrap destinations markdown would otherwise misread (spaces, parentheses)
+function destination(url: string): string {
+  return /[\s()<>]/.test(url) ? `<${url.replace(/[<>]/g, encodeURIComponent)}>` : url;
+}
+
+function definitionEdit(markdown: string, definition: Definition, url: string): Edit | null {
+  const start = definition.position?.start.offset;
+  const end = definition.position?.end.offset;
+  if (start === undefined || end === undefined) return null;
+
+  const source = markdown.slice(start, end);
+  const label = bracketEnd(source, 1);
+  if (label === -1 || source[label + 1] !== ':') return null;
+  const title = definition.title ? ` ${JSON.stringify(definition.title)}` : '';
+  return { start, end, text: `${source.slice(0, label + 2)} ${destination(url)}${title}` };
+}
+
+function htmlEdits(
+  markdown: string,
+  start: number,
+  end: number,
+  apply: (ref: ImageReference) => ImageLinkAction | undefined
+): Edit[] {
+  const edits: Edit[] = [];
+  const source = markdown.slice(start, end);
+
+  for (const tag of source.matchAll(IMG_TAG)) {
+    const src = tag[0].match(SRC_ATTR);
+    if (!src || tag.index === undefined || src.index === undefined) continue;
+
+    const url = src[3] ?? src[4] ?? src[5] ?? '';
+    const alt = tag[0].match(/\salt\s*=\s*("([^"]*)"|'([^']*)')/i);
+    const action = apply({ kind: 'html', url, alt: alt?.[2] ?? alt?.[3] });
+    if (!action) continue;
+
+    const tagStart = start + tag.index;
+    if ('remove' in action) {
+      edits.push({ start: tagStart, end: tagStart + tag[0].length, text: '' });
+      continue;
+    }
+    const valueStart = tagStart + src.index + src[1].length;
+    const quote = src[3] !== undefined ? '"' : src[4] !== undefined ? "'" : '"';
+    edits.push({
+      start: valueStart,
+      end: valueStart + src[2].length,
+      text: `${quote}${action.url.replace(new RegExp(quote, 'g'), encodeURIComponent(quote))}${quote}`,
+    });
+  }
+  return edits;
+}
@@ -0,0 +1,212 @@
+import { createHash } from 'crypto';
+import { readFile, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import sharp from 'sharp';
+import { rewriteImageLinks } from '@/lib/imagelinks';
+import { envInt, formInt } from '@/lib/numbers';
+import { EmbedReport, ImageFormat, ImageOptimizationReport, imageFormatSchema } from '@/lib/schemas';
+
+export type { EmbedReport, ImageFormat, ImageOptimizationReport } from '@/lib/schemas';
+
+export interface ImageOptions {
+  optimize: boolean;
+  format: ImageFormat;
+  // Longest side in pixels; 0 keeps the original size
+  maxDimension: number;
+  quality: number;
+}
+
+const IMAGE_FORMATS: readonly ImageFormat[] = imageFormatSchema.options;
+
+// Used when optimizeImages=true is sent without the individual settings
+const DEFAULT_FORMAT: ImageFormat = 'webp';
+const DEFAULT_MAX_DIMENSION = 1920;
+const DEFAULT_QUALITY = 80;
+
+const EXTENSIONS: Record<Exclude<ImageFormat, 'original'>, string> = {
+  webp: '.webp',
+  avif: '.avif',
+  jpeg: '.jpg',
+};
+
+export function parseImageOptions(formData: FormData): ImageOptions {
+  const format = ((formData.get('imageFormat') as string | null) ?? '').toLowerCase();
+  return {
+    optimize: (formData.get('optimizeImages') as string | null)?.toLowerCase?.() === 'true',
+    format: IMAGE_FORMATS.includes(format as ImageFormat) ? format as ImageFormat : DEFAULT_FORMAT,
+    maxDimension: formInt(formData.get('imageMaxDimension'), DEFAULT_MAX_DIMENSION, 0, 16384),
+    quality: formInt(formData.get('imageQuality'), DEFAULT_QUALITY, 1, 100),
+  };
+}
+
+async function encode(input: Buffer, options: ImageOptions): Promise<{ data: Buffer; ext?: string }> {
+  // rotate() applies the EXIF orientation before sharp drops the metadata
+  let pipeline = sharp(input, { animated: false }).rotate();
+  if (options.maxDimension > 0) {
+    pipeline = pipeline.resize({
+      width: options.maxDimension,
+      height: options.maxDimension,
+      fit: 'inside',
+      withoutEnlargement: true,
+    });
+  }
+
+  if (options.format === 'original') {
+    return { data: await pipeline.toBuffer() };
+  }
+  return {
+    data: await pipeline.toFormat(options.format, { quality: options.quality }).toBuffer(),
+    ext: EXTENSIONS[options.format],
+  };
+}
+
+function uniqueName(name: string, taken: (candidate: string) => boolean): string {
+  const ext = path.extname(name);
+  const base = name.slice(0, name.length - ext.length);
+  let candidate = name;
+  for (let i = 2; taken(candidate); i++) {
+    candidate = `${base}-${i}${ext}`;
+  }
+  return candidate;
+}
+
+// Re-encode extracted images in place and drop byte-identical duplicates.
+// Returns the new image list, a map of renamed files (old name -> new name) and the byte savings.
+// Images sharp cannot read (EMF, WMF, ...) are kept as they are.
+export async function optimizeImages<T extends { savedPath: string }>(
+  images: T[],
+  options: ImageOptions
+): Promise<{ images: T[]; renames: Map<string, string>; report: ImageOptimizationReport }> {
+  const report: ImageOptimizationReport = { bytesBefore: 0, bytesAfter: 0, optimized: 0, duplicatesRemoved: 0 };
+  const renames = new Map<string, string>();
+  const byHash = new Map<string, string>();
+  const usedNames = new Set<string>();
+  // Originals not processed yet must not be overwritten by a renamed file
+  const pending = new Set(images.map(image => path.basename(String(image.savedPath ?? ''))));
+  const kept: T[] = [];
+
+  for (const image of images) {
+    const savedPath = typeof image.savedPath === 'string' ? image.savedPath : '';
+    if (!savedPath) continue;
+
+    const name = path.basename(savedPath);
+    pending.delete(name);
+    const input = await readFile(savedPath);
+    report.bytesBefore += input.length;
+
+    const hash = createHash('sha256').update(input).digest('hex');
+    const duplicateOf = byHash.get(hash);
+    if (duplicateOf) {
+      renames.set(name, duplicateOf);
+      report.duplicatesRemoved++;
+      await unlink(savedPath).catch(() => {});
+      continue;
+    }
+
+    let output: Buffer = input;
+    let newName = name;
+    try {
+      const encoded = await encode(input, options);
+      // Keep the original when re-encoding in the same format only made it bigger
+      if (encoded.ext || encoded.data.length < input.length) {
+        output = encoded.data;
+        if (encoded.ext) newName = name.slice(0, name.length - path.extname(name).length) + encoded.ext;
+        report.optimized++;
+      }
+    } catch {
+      // Not a format sharp can process; keep it untouched
+    }
+
+    newName = uniqueName(newName, candidate => usedNames.has(candidate) || pending.has(candidate));
+    usedNames.add(newName);
+    const newPath = path.join(path.dirname(savedPath), newName);
+    if (newPath !== savedPath) {
+      await unlink(savedPath).catch(() => {});
+    }
+    await writeFile(newPath, output);
+    report.bytesAfter += output.length;
+
+    byHash.set(hash, newName);
+    if (newName !== name) renames.set(name, newName);
+    kept.push({ ...image, savedPath: newPath });
+  }
+
+  return { images: kept, renames, report };
+}
+
+// Point images/<old> links at the renamed files
+export function renameImageLinks(markdown: string, renames: Map<string, string>): string {
+  if (renames.size === 0) return markdown;
+  return rewriteImageLinks(markdown, (name, dot) => {
+    const renamed = renames.get(name);
+    return renamed ? `${dot}images/${renamed}` : undefined;
+  });
+}
+
+export interface EmbedLimits {
+  maxImageBytes: number;
+  maxTotalBytes: number;
+}
+
+// Per-image cap for data URIs; override with EMBED_IMAGE_MAX_BYTES
+const DEFAULT_EMBED_IMAGE_MAX_BYTES = 512 * 1024; // 512KB
+// Cap on all inlined images of one document; override with EMBED_TOTAL_MAX_BYTES
+const DEFAULT_EMBED_TOTAL_MAX_BYTES = 5 * 1024 * 1024; // 5MB
+
+const DATA_URI_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.avif': 'image/avif',
+  '.svg': 'image/svg+xml',
+  '.bmp': 'image/bmp',
+};
+
+export function imageContentType(name: string): string {
+  return DATA_URI_TYPES[path.extname(name).toLowerCase()] ?? 'application/octet-stream';
+}
+
+export function getEmbedLimits(): EmbedLimits {
+  return {
+    maxImageBytes: envInt('EMBED_IMAGE_MAX_BYTES', DEFAULT_EMBED_IMAGE_MAX_BYTES),
+    maxTotalBytes: envInt('EMBED_TOTAL_MAX_BYTES', DEFAULT_EMBED_TOTAL_MAX_BYTES),
+  };
+}
+
+// Inline images as data: URIs, in document order, while they fit under the caps.
+// Returns the rewritten markdown and the images that still have to ship as files.
+export async function embedImages<T extends { savedPath: string }>(
+  markdown: string,
+  images: T[],
+  limits: EmbedLimits
+): Promise<{ markdown: string; external: T[]; report: EmbedReport }> {
+  const report: EmbedReport = { inlined: 0, external: 0, inlinedBytes: 0 };
+  const dataUris = new Map<string, string>();
+  const external: T[] = [];
+
+  for (const image of images) {
+    const savedPath = typeof image.savedPath === 'string' ? image.savedPath : '';
+    if (!savedPath) continue;
+
+    const name = path.basename(savedPath);
+    const type = DATA_URI_TYPES[path.extname(name).toLowerCase()];
+    const data = type ? await readFile(savedPath) : null;
+    if (!type || !data || data.length > limits.maxImageBytes || report.inlinedBytes + data.length > limits.maxTotalBytes) {
+      external.push(image);
+      report.external++;
+      continue;
+    }
+
+    dataUris.set(name, `data:${type};base64,${data.toString('base64')}`);
+    report.inlined++;
+    report.inlinedBytes += data.length;
+  }
+
+  return {
+    markdown: rewriteImageLinks(markdown, name => dataUris.get(name)),
+    external,
+    report,
+  };
+}
@@ -0,0 +1,177 @@
+import { randomUUID } from 'crypto';
+import { ConvertOptions, ConversionResult, runConversion } from '@/lib/convert';
+import { ApiError, ErrorCode, toApiError } from '@/lib/errors';
+import { envInt } from '@/lib/numbers';
+import type { JobStatus, JobSummary } from '@/lib/schemas';
+import { getStorage, uploadKey } from '@/lib/storage';
+import { ConversionOutcome, WebhookTarget, notifyCompletion, webhookUrlFor } from '@/lib/webhooks';
+
+export type { JobStatus, JobSummary } from '@/lib/schemas';
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  name: string;
+  createdAt: number;
+  // ID of the request that submitted the job, for matching it up with server logs
+  requestId?: string;
+  // Principal that submitted the job (see getPrincipal()); nobody else can see it
+  owner?: string;
+  startedAt?: number;
+  finishedAt?: number;
+  error?: string;
+  errorCode?: ErrorCode;
+  result?: ConversionResult;
+  // Set when the job was submitted with a callbackUrl
+  webhookUrl?: string;
+}
+
+// Max conversions running at once; override with CONVERSION_CONCURRENCY
+const DEFAULT_CONCURRENCY = 2;
+// Max jobs waiting to start; override with CONVERSION_QUEUE_LIMIT
+const DEFAULT_QUEUE_LIMIT = 50;
+// Finished jobs are forgotten after this long
+const JOB_RETENTION_MS = 60 * 60 * 1000; // 1 hour
+
+// Queued uploads wait in storage rather than in memory
+interface PendingJob {
+  job: Job;
+  uploadKey: string;
+  contentType: string;
+  options: ConvertOptions;
+  callback: WebhookTarget | null;
+}
+
+class JobQueue {
+  private jobs = new Map<string, Job>();
+  private pending: PendingJob[] = [];
+  private running = 0;
+
+  constructor(private concurrency: number, private queueLimit: number) {}
+
+  async submit(
+    file: File,
+    options: ConvertOptions,
+    owner?: string,
+    requestId?: string,
+    callback: WebhookTarget | null = null
+  ): Promise<Job> {
+    this.prune();
+    if (this.pending.length >= this.queueLimit) {
+      throw new ApiError('QUEUE_FULL', 'Conversion queue is full. Try again later.', {
+        headers: { 'Retry-After': '30' },
+      });
+    }
+
+    // Job IDs are all it takes to read a result, so they must not be guessable
+    const id = randomUUID();
+    const job: Job = {
+      id,
+      status: 'queued',
+      name: file.name,
+      createdAt: Date.now(),
+      requestId,
+      owner,
+      webhookUrl: callback ? webhookUrlFor(id) : undefined,
+    };
+    const key = uploadKey(job.id, file.name.replace(/[^a-zA-Z0-9.-]/g, '_'));
+    await getStorage().put(key, Buffer.from(await file.arrayBuffer()), file.type || undefined);
+
+    this.jobs.set(job.id, job);
+    this.pending.push({ job, uploadKey: key, contentType: file.type, options, callback });
+    this.drain();
+    return job;
+  }
+
+  // Other callers' jobs are treated as missing
+  get(id: string, owner: string | undefined): Job | undefined {
+    const job = this.jobs.get(id);
+    return job && job.owner === owner ? job : undefined;
+  }
+
+  queuePosition(id: string): number | undefined {
+    const index = this.pending.findIndex(p => p.job.id === id);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  private drain(): void {
+    while (this.running < this.concurrency && this.pending.length > 0) {
+      const next = this.pending.shift()!;
+      this.running++;
+      this.run(next).finally(() => {
+        this.running--;
+        this.drain();
+      });
+    }
+  }
+
+  private async run({ job, uploadKey, contentType, options, callback }: PendingJob): Promise<void> {
+    job.status = 'running';
+    job.startedAt = Date.now();
+    const storage = getStorage();
+    let outcome: ConversionOutcome;
+    try {
+      const upload = await storage.get(uploadKey);
+      if (!upload) {
+        throw new ApiError('EXPIRED', 'Uploaded file is no longer available');
+      }
+      const file = new File([new Uint8Array(upload)], job.name, { type: contentType });
+      job.result = await runConversion(file, options);
+      job.status = 'succeeded';
+      outcome = { name: job.name, result: job.result };
+    } catch (error) {
+      const apiError = toApiError(error, job.requestId);
+      job.error = apiError.message;
+      job.errorCode = apiError.code;
+      job.status = 'failed';
+      outcome = { name: job.name, error: apiError };
+    } finally {
+      job.finishedAt = Date.now();
+      await storage.delete(uploadKey).catch(() => {});
+    }
+
+    if (callback) {
+      notifyCompletion(callback, outcome, job.id);
+    }
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - JOB_RETENTION_MS;
+    for (const [id, job] of this.jobs) {
+      if (job.finishedAt && job.finishedAt < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+// Route handlers may be bundled separately; keep one queue per server process
+const globalForJobs = globalThis as unknown as { file2mdJobQueue?: JobQueue };
+
+export function getJobQueue(): JobQueue {
+  if (!globalForJobs.file2mdJobQueue) {
+    globalForJobs.file2mdJobQueue = new JobQueue(
+      envInt('CONVERSION_CONCURRENCY', DEFAULT_CONCURRENCY, 1),
+      envInt('CONVERSION_QUEUE_LIMIT', DEFAULT_QUEUE_LIMIT, 1),
+    );
+  }
+  return globalForJobs.file2mdJobQueue;
+}
+
+export function summarizeJob(job: Job): JobSummary {
+  const iso = (t?: number) => (t === undefined ? undefined : new Date(t).toISOString());
+  return {
+    id: job.id,
+    status: job.status,
+    name: job.name,
+    createdAt: new Date(job.createdAt).toISOString(),
+    requestId: job.requestId,
+    startedAt: iso(job.startedAt),
+    finishedAt: iso(job.finishedAt),
+    error: job.error,
+    errorCode: job.errorCode,
+    queuePosition: job.status === 'queued' ? getJobQueue().queuePosition(job.id) : undefined,
+    resultUrl: job.status === 'succeeded' ? `/api/jobs/${job.id}/result` : undefined,
+    webhookUrl: job.webhookUrl,
+  };
+}
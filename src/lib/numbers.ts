@@ -0,0 +1,13 @@
+// Integer settings and form fields, parsed the same way everywhere
+
+// An integer environment variable; unset, malformed or below `min` falls back to `fallback`
+export function envInt(name: string, fallback: number, min = 0): number {
+  const parsed = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isFinite(parsed) && parsed >= min ? parsed : fallback;
+}
+
+// An integer form field clamped to [min, max]; missing or malformed falls back to `fallback`
+export function formInt(value: FormDataEntryValue | null, fallback: number, min: number, max: number): number {
+  const parsed = Number.parseInt(typeof value === 'string' ? value : '', 10);
+  return Number.isFinite(parsed) ? Math.min(max, Math.max(min, parsed)) : fallback;
+}
@@ -0,0 +1,285 @@
+import { z } from 'zod';
+import {
+  batchConversionResponseSchema,
+  batchFailureSchema,
+  batchFileResultSchema,
+  chunkSchema,
+  cleanupResponseSchema,
+  conversionProgressSchema,
+  conversionResponseSchema,
+  conversionStatsSchema,
+  convertFieldsSchema,
+  errorBodySchema,
+  errorCodeSchema,
+  formatInfoSchema,
+  formatsResponseSchema,
+  jobResponseSchema,
+  jobSubmittedResponseSchema,
+  jobSummarySchema,
+  sessionResponseSchema,
+  webhookDeliverySchema,
+  webhookPayloadSchema,
+  webhookResponseSchema,
+} from '@/lib/schemas';
+
+// Schemas published under #/components/schemas; the ones nested in others are referenced
+// from them rather than repeated
+const COMPONENTS = {
+  ErrorCode: errorCodeSchema,
+  ErrorBody: errorBodySchema,
+  BatchFailure: batchFailureSchema,
+  ConvertFields: convertFieldsSchema,
+  Chunk: chunkSchema,
+  ConversionStats: conversionStatsSchema,
+  ConversionResponse: conversionResponseSchema,
+  BatchFileResult: batchFileResultSchema,
+  BatchConversionResponse: batchConversionResponseSchema,
+  ConversionProgress: conversionProgressSchema,
+  FormatInfo: formatInfoSchema,
+  FormatsResponse: formatsResponseSchema,
+  JobSummary: jobSummarySchema,
+  JobSubmittedResponse: jobSubmittedResponseSchema,
+  JobResponse: jobResponseSchema,
+  SessionResponse: sessionResponseSchema,
+  CleanupResponse: cleanupResponseSchema,
+  WebhookPayload: webhookPayloadSchema,
+  WebhookDelivery: webhookDeliverySchema,
+  WebhookResponse: webhookResponseSchema,
+};
+
+type ComponentName = keyof typeof COMPONENTS;
+
+const ref = (name: ComponentName) => ({ $ref: `#/components/schemas/${name}` });
+
+function jsonResponse(description: string, schema: object) {
+  return { description, content: { 'application/json': { schema } } };
+}
+
+const errorResponse = jsonResponse('Error; `code` says which', ref('ErrorBody'));
+
+// The document and its text fields. `url` may replace `file`.
+function conversionBody(multipleFiles: boolean) {
+  const binary = { type: 'string', format: 'binary' };
+  return {
+    required: true,
+    content: {
+      'multipart/form-data': {
+        schema: {
+          allOf: [
+            ref('ConvertFields'),
+            {
+              type: 'object',
+              properties: {
+                file: multipleFiles ? { type: 'array', items: binary, maxItems: 20 } : binary,
+              },
+            },
+          ],
+        },
+      },
+    },
+  };
+}
+
+// What the server POSTs to callbackUrl once the conversion has finished
+const completionCallback = {
+  conversionFinished: {
+    '{$request.body#/callbackUrl}': {
+      post: {
+        summary: 'The conversion finished',
+        description: 'Signed with X-File2md-Signature: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>" '
+          + 'keyed with WEBHOOK_SECRET>. Answers other than 2xx are retried with exponential backoff.',
+        requestBody: { required: true, content: { 'application/json': { schema: ref('WebhookPayload') } } },
+        responses: { '2XX': { description: 'Received' } },
+      },
+    },
+  },
+};
+
+const idParameter = (description: string) => ({ name: 'id', in: 'path', required: true, schema: { type: 'string' }, description });
+const tokenParameter = { name: 'token', in: 'query', required: true, schema: { type: 'string' }, description: 'Signed token from the conversion response' };
+// Endpoints that only need the link's signed token
+const NO_AUTH: object[] = [];
+
+function componentSchemas(): Record<string, object> {
+  const registry = z.registry<{ id: string }>();
+  for (const [id, schema] of Object.entries(COMPONENTS)) {
+    registry.add(schema, { id });
+  }
+  const { schemas } = z.toJSONSchema(registry, {
+    uri: id => `#/components/schemas/${id}`,
+    override: ({ jsonSchema }) => {
+      // Fields are added to responses over time; generated clients should not reject them
+      if (jsonSchema.additionalProperties === false) delete jsonSchema.additionalProperties;
+      // z.int() states the safe integer range, which says nothing here
+      if (jsonSchema.type === 'integer' && jsonSchema.maximum === Number.MAX_SAFE_INTEGER) {
+        delete jsonSchema.minimum;
+        delete jsonSchema.maximum;
+      }
+    },
+  });
+  // Components are plain schemas inside the document, without their own dialect and ID
+  for (const schema of Object.values(schemas)) {
+    delete schema.$schema;
+    delete schema.$id;
+  }
+  return schemas;
+}
+
+function buildDocument(): object {
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'file2md conversion API',
+      version: '1.0.0',
+      description: 'Converts PDF, Office, HWP, HTML, CSV and text documents to Markdown.',
+    },
+    security: [{ bearerAuth: [] }],
+    paths: {
+      '/api/convert': {
+        post: {
+          summary: 'Convert one document, or several into one ZIP',
+          requestBody: conversionBody(true),
+          responses: {
+            200: jsonResponse('The converted document, or a batch result when several files were sent', {
+              oneOf: [ref('ConversionResponse'), ref('BatchConversionResponse')],
+            }),
+            422: jsonResponse('The document could not be converted, or every file of a batch failed', {
+              oneOf: [ref('ErrorBody'), ref('BatchFailure')],
+            }),
+            default: errorResponse,
+          },
+          callbacks: completionCallback,
+        },
+      },
+      '/api/convert/stream': {
+        post: {
+          summary: 'Convert one document, reporting progress as Server-Sent Events',
+          description: '`stage` events carry a ConversionProgress, followed by one `result` event with a '
+            + 'ConversionResponse or one `error` event with an ErrorBody. Problems with the request itself '
+            + 'are answered as JSON before the stream starts.',
+          requestBody: conversionBody(false),
+          responses: {
+            200: { description: 'Event stream', content: { 'text/event-stream': { schema: { type: 'string' } } } },
+            default: errorResponse,
+          },
+          callbacks: completionCallback,
+        },
+      },
+      '/api/jobs': {
+        post: {
+          summary: 'Submit one document for background conversion',
+          requestBody: conversionBody(false),
+          responses: {
+            202: jsonResponse('Queued', ref('JobSubmittedResponse')),
+            default: errorResponse,
+          },
+          callbacks: completionCallback,
+        },
+      },
+      '/api/jobs/{id}': {
+        get: {
+          summary: 'Status of a job',
+          parameters: [idParameter('Job ID')],
+          responses: {
+            200: jsonResponse('The job', ref('JobResponse')),
+            default: errorResponse,
+          },
+        },
+      },
+      '/api/jobs/{id}/result': {
+        get: {
+          summary: 'Result of a finished job',
+          description: 'NOT_READY until the job has finished; a failed job answers with its error.',
+          parameters: [idParameter('Job ID')],
+          responses: {
+            200: jsonResponse('The converted document', ref('ConversionResponse')),
+            default: errorResponse,
+          },
+        },
+      },
+      '/api/webhooks/{id}': {
+        get: {
+          summary: 'Delivery log of a conversion\'s callback',
+          description: 'NOT_READY while a job with a callbackUrl is still converting.',
+          parameters: [idParameter('Job ID, or the conversion ID from webhookUrl')],
+          responses: {
+            200: jsonResponse('The delivery and its attempts', ref('WebhookResponse')),
+            default: errorResponse,
+          },
+        },
+      },
+      '/api/download/{id}': {
+        get: {
+          summary: 'Download a converted document or ZIP',
+          security: NO_AUTH,
+          parameters: [idParameter('Stored result'), tokenParameter],
+          responses: {
+            200: { description: 'The file', content: { 'application/octet-stream': { schema: { type: 'string', format: 'binary' } } } },
+            default: errorResponse,
+          },
+        },
+      },
+      '/api/preview/{id}/images/{name}': {
+        get: {
+          summary: 'An image extracted from a converted document',
+          security: NO_AUTH,
+          parameters: [
+            idParameter('Stored result'),
+            { name: 'name', in: 'path', required: true, schema: { type: 'string' } },
+            tokenParameter,
+          ],
+          responses: {
+            200: { description: 'The image', content: { 'image/*': { schema: { type: 'string', format: 'binary' } } } },
+            default: errorResponse,
+          },
+        },
+      },
+      '/api/formats': {
+        get: {
+          summary: 'Supported input formats',
+          security: NO_AUTH,
+          responses: {
+            200: jsonResponse('The formats', ref('FormatsResponse')),
+            default: errorResponse,
+          },
+        },
+      },
+      '/api/session': {
+        post: {
+          summary: 'Session cookie for the web interface (same-origin only)',
+          security: NO_AUTH,
+          responses: {
+            200: jsonResponse('Whether the cookie was needed', ref('SessionResponse')),
+            default: errorResponse,
+          },
+        },
+      },
+      '/api/cleanup': {
+        post: {
+          summary: 'Delete expired results now (admin scope)',
+          parameters: [{ name: 'dryRun', in: 'query', schema: { type: 'boolean' } }],
+          responses: {
+            200: jsonResponse('What was (or would be) removed', ref('CleanupResponse')),
+            default: errorResponse,
+          },
+        },
+      },
+    },
+    components: {
+      schemas: componentSchemas(),
+      securitySchemes: {
+        bearerAuth: { type: 'http', scheme: 'bearer', description: 'API key; needed once API_KEYS is set' },
+      },
+    },
+  };
+}
+
+const globalForOpenApi = globalThis as unknown as { file2mdOpenApi?: object };
+
+// The schemas never change while the process runs, so the document is built once
+export function getOpenApiDocument(): object {
+  if (!globalForOpenApi.file2mdOpenApi) {
+    globalForOpenApi.file2mdOpenApi = buildDocument();
+  }
+  return globalForOpenApi.file2mdOpenApi;
+}
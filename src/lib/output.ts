@@ -0,0 +1,122 @@
+import type { Root, RootContent } from 'mdast';
+import { toString } from 'mdast-util-to-string';
+import rehypeRaw from 'rehype-raw';
+import rehypeSanitize, { defaultSchema } from 'rehype-sanitize';
+import rehypeStringify from 'rehype-stringify';
+import remarkGfm from 'remark-gfm';
+import remarkParse from 'remark-parse';
+import remarkRehype from 'remark-rehype';
+import remarkStringify from 'remark-stringify';
+import { unified } from 'unified';
+import { OutputFormat, outputFormatSchema } from '@/lib/schemas';
+
+export type { OutputFormat } from '@/lib/schemas';
+
+export const OUTPUT_FORMATS: readonly OutputFormat[] = outputFormatSchema.options;
+
+// File extension of the converted document for each format
+export const OUTPUT_EXTENSIONS: Record<OutputFormat, string> = {
+  markdown: 'md',
+  html: 'html',
+  text: 'txt',
+  mdast: 'json',
+};
+
+// Form field outputFormat; anything unknown falls back to markdown
+export function parseOutputFormat(value: string | null | undefined): OutputFormat {
+  const format = (value || '').toLowerCase();
+  return OUTPUT_FORMATS.includes(format as OutputFormat) ? format as OutputFormat : 'markdown';
+}
+
+export function parseMarkdown(markdown: string): Root {
+  // remark-gfm only extends the parser, so no transform pass is needed
+  return unified().use(remarkParse).use(remarkGfm).parse(markdown);
+}
+
+// Serialize a syntax tree built by a converter; GFM is needed for tables
+export function stringifyMarkdown(tree: Root): string {
+  return unified().use(remarkGfm).use(remarkStringify, { bullet: '-' }).stringify(tree);
+}
+
+// Render converted markdown in the requested format. `title` is used by standalone HTML.
+export function renderOutput(markdown: string, format: OutputFormat, title = 'Document'): string {
+  switch (format) {
+    case 'html':
+      return renderHtml(markdown, title);
+    case 'text':
+      return renderText(parseMarkdown(markdown));
+    case 'mdast':
+      return JSON.stringify(parseMarkdown(markdown));
+    default:
+      return markdown;
+  }
+}
+
+// Embedded images (embedImages) arrive as data: URIs, so allow those for src on top of http(s)
+const sanitizeSchema = {
+  ...defaultSchema,
+  protocols: { ...defaultSchema.protocols, src: [...(defaultSchema.protocols?.src ?? []), 'data'] },
+};
+
+// file2md emits raw HTML (tables, img tags) inside markdown, so parse it and then sanitize
+// the whole tree instead of dropping it
+function renderHtml(markdown: string, title: string): string {
+  const body = unified()
+    .use(remarkParse)
+    .use(remarkGfm)
+    .use(remarkRehype, { allowDangerousHtml: true })
+    .use(rehypeRaw)
+    .use(rehypeSanitize, sanitizeSchema)
+    .use(rehypeStringify)
+    .processSync(markdown)
+    .toString();
+
+  return [
+    '<!DOCTYPE html>',
+    '<html>',
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeHtml(title)}</title>`,
+    '</head>',
+    '<body>',
+    body,
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+}
+
+// Plain text keeps the block structure (one blank line between blocks, one line per list
+// item and table row) but drops all markup
+function renderText(tree: Root): string {
+  return blockText(tree.children).replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
+
+function blockText(nodes: RootContent[]): string {
+  return nodes.map(nodeText).filter(Boolean).join('\n\n');
+}
+
+function nodeText(node: RootContent): string {
+  switch (node.type) {
+    case 'list':
+      return node.children.map(item => blockText(item.children).replace(/\n\n/g, '\n')).join('\n');
+    case 'blockquote':
+      return blockText(node.children);
+    case 'table':
+      return node.children.map(row => row.children.map(cell => toString(cell, { includeHtml: false })).join('\t')).join('\n');
+    case 'code':
+      return node.value;
+    case 'html':
+      return node.value.replace(/<[^>]*>/g, ' ').replace(/[ \t]+/g, ' ').trim();
+    case 'thematicBreak':
+    case 'definition':
+      return '';
+    default:
+      return toString(node, { includeHtml: false });
+  }
+}
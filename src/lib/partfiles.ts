@@ -0,0 +1,229 @@
+import archiver from 'archiver';
+import { constants } from 'buffer';
+import { createWriteStream } from 'fs';
+import { readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { PDFDocument } from 'pdf-lib';
+import type { Element, ElementContent, Root as XmlRoot } from 'xast';
+import { fromXml } from 'xast-util-from-xml';
+import { PartSelection, isPartSelected } from '@/lib/parts';
+import { ZipEntry, readZipDirectory, readZipEntry } from '@/lib/sniff';
+
+// Package parts are bounded by the upload size; the cap only keeps a lying archive from
+// inflating without end
+const MAX_PACKAGE_PART_BYTES = Math.min(512 * 1024 * 1024, constants.MAX_LENGTH);
+
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const EMPTY_RELATIONSHIPS = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="${RELATIONSHIPS_NS}"/>`;
+const EMPTY_WORKSHEET = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData/></worksheet>';
+const EMPTY_SLIDE = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n'
+  + '<p:sld xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"'
+  + ' xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"'
+  + ' xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main">'
+  + '<p:cSld><p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>'
+  + '<p:grpSpPr/></p:spTree></p:cSld></p:sld>';
+
+interface Relationship {
+  id: string;
+  type: string;
+  // Package path of the part it points at; absent for external targets
+  part?: string;
+}
+
+// Blank out the pages, slides or sheets a selection leaves out, in place, before file2md
+// converts the file. Blanked parts keep their place, so the output still numbers and names
+// them as the original does and the markdown is cut at its markers as usual; their text is
+// never parsed and their images never extracted. Word and HWP pages only exist once the
+// document is laid out, so those files are converted whole and only cut afterwards.
+// Returns whether anything was blanked; a file this cannot read is left for file2md to judge.
+export async function blankUnselectedParts(filePath: string, selection: PartSelection): Promise<boolean> {
+  try {
+    // The scratch copy is always named with its format's extension
+    switch (path.extname(filePath).toLowerCase()) {
+      case '.pdf':
+        return selection.kind === 'pages' && await blankPdfPages(filePath, selection);
+      case '.pptx':
+        return selection.kind === 'slides' && await blankPackageParts(filePath, selection, blankSlides);
+      case '.xlsx':
+        return selection.kind === 'sheets' && await blankPackageParts(filePath, selection, blankSheets);
+      default:
+        return false;
+    }
+  } catch {
+    // Encrypted or damaged; file2md reports what is wrong with it
+    return false;
+  }
+}
+
+// Swap every unselected page for an empty one of the same size
+async function blankPdfPages(filePath: string, selection: PartSelection): Promise<boolean> {
+  const pdf = await PDFDocument.load(await readFile(filePath), { updateMetadata: false });
+  let blanked = 0;
+  for (let i = 0; i < pdf.getPageCount(); i++) {
+    if (isPartSelected(selection, i + 1, i + 1)) continue;
+    const { width, height } = pdf.getPage(i).getSize();
+    pdf.removePage(i);
+    pdf.insertPage(i, [width, height]);
+    blanked++;
+  }
+  if (blanked === 0) return false;
+  await writeFile(filePath, await pdf.save());
+  return true;
+}
+
+type PackageBlanker = (read: (name: string) => string | null, selection: PartSelection) => Map<string, string>;
+
+// Rewrite an Office Open XML package with the parts `blank` returns replaced
+async function blankPackageParts(filePath: string, selection: PartSelection, blank: PackageBlanker): Promise<boolean> {
+  const buffer = await readFile(filePath);
+  const entries = readZipDirectory(buffer);
+  if (!entries) return false;
+
+  const read = (name: string) => {
+    const entry = entries.get(name);
+    return entry ? readZipEntry(buffer, entry)?.toString('utf-8') ?? null : null;
+  };
+  const replaced = blank(read, selection);
+  if (replaced.size === 0) return false;
+
+  const rewritten = `${filePath}.parts`;
+  try {
+    await writeZip(rewritten, buffer, entries, replaced);
+    await rename(rewritten, filePath);
+  } catch (error) {
+    await rm(rewritten, { force: true });
+    throw error;
+  }
+  return true;
+}
+
+function writeZip(filePath: string, buffer: Buffer, entries: Map<string, ZipEntry>, replaced: Map<string, string>): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const output = createWriteStream(filePath);
+    const archive = archiver('zip', { zlib: { level: 6 } });
+
+    output.on('close', () => resolve());
+    output.on('error', (err) => reject(err));
+    archive.on('error', (err) => reject(err));
+
+    archive.pipe(output);
+    for (const [name, entry] of entries) {
+      if (name.endsWith('/')) continue;
+      const data = replaced.has(name) ? replaced.get(name) : readZipEntry(buffer, entry, MAX_PACKAGE_PART_BYTES);
+      if (data === null || data === undefined) {
+        archive.abort();
+        reject(new Error(`Cannot read ${name} from the package`));
+        return;
+      }
+      archive.append(data, { name });
+    }
+    archive.finalize();
+  });
+}
+
+// Every slide of ppt/presentation.xml that is not selected becomes an empty slide. Its
+// layout stays, since a slide must have one; its pictures, charts and notes are let go.
+function blankSlides(read: (name: string) => string | null, selection: PartSelection): Map<string, string> {
+  const replaced = new Map<string, string>();
+  const presentation = parseXml(read('ppt/presentation.xml'));
+  const relationships = readRelationships(read, 'ppt/presentation.xml');
+  if (!presentation || !relationships) return replaced;
+
+  const slideIds = findElements(presentation, 'sldIdLst').flatMap(list => childElements(list, 'sldId'));
+  slideIds.forEach((slideId, i) => {
+    const slide = relationships.get(relationshipId(slideId) ?? '');
+    if (!slide?.part || !slide.type.endsWith('/slide') || isPartSelected(selection, i + 1, i + 1)) return;
+
+    replaced.set(slide.part, EMPTY_SLIDE);
+    const layouts = [...(readRelationships(read, slide.part)?.values() ?? [])].filter(rel => rel.type.endsWith('/slideLayout'));
+    replaced.set(relationshipsPath(slide.part), relationshipsXml(layouts, slide.part));
+  });
+  return replaced;
+}
+
+// Every sheet of xl/workbook.xml that is not selected becomes an empty worksheet. Sheets are
+// matched by name or by position, like the markdown markers they come out as.
+function blankSheets(read: (name: string) => string | null, selection: PartSelection): Map<string, string> {
+  const replaced = new Map<string, string>();
+  const workbook = parseXml(read('xl/workbook.xml'));
+  const relationships = readRelationships(read, 'xl/workbook.xml');
+  if (!workbook || !relationships) return replaced;
+
+  const sheets = findElements(workbook, 'sheets').flatMap(list => childElements(list, 'sheet'));
+  sheets.forEach((sheet, i) => {
+    const target = relationships.get(relationshipId(sheet) ?? '');
+    const name = sheet.attributes.name ?? '';
+    // Chartsheets and dialog sheets have no cells to skip
+    if (!target?.part || !target.type.endsWith('/worksheet') || isPartSelected(selection, name, i + 1)) return;
+
+    replaced.set(target.part, EMPTY_WORKSHEET);
+    if (read(relationshipsPath(target.part)) !== null) {
+      replaced.set(relationshipsPath(target.part), EMPTY_RELATIONSHIPS);
+    }
+  });
+  return replaced;
+}
+
+function parseXml(xml: string | null): XmlRoot | null {
+  if (xml === null) return null;
+  try {
+    return fromXml(xml);
+  } catch {
+    return null;
+  }
+}
+
+// Namespace prefixes vary between producers, so elements and attributes go by local name
+function localName(name: string): string {
+  return name.slice(name.indexOf(':') + 1);
+}
+
+function childElements(node: XmlRoot | Element, name: string): Element[] {
+  return (node.children as ElementContent[]).filter((child): child is Element => child.type === 'element' && localName(child.name) === name);
+}
+
+function findElements(node: XmlRoot | Element, name: string): Element[] {
+  return (node.children as ElementContent[]).flatMap(child => child.type !== 'element'
+    ? []
+    : localName(child.name) === name ? [child] : findElements(child, name));
+}
+
+// The r:id pointing at the part in the relationships of the main part
+function relationshipId(node: Element): string | undefined {
+  const key = Object.keys(node.attributes).find(name => name.includes(':') && localName(name) === 'id');
+  return key ? node.attributes[key] ?? undefined : undefined;
+}
+
+// xl/worksheets/sheet1.xml -> xl/worksheets/_rels/sheet1.xml.rels
+function relationshipsPath(part: string): string {
+  return path.posix.join(path.posix.dirname(part), '_rels', `${path.posix.basename(part)}.rels`);
+}
+
+function readRelationships(read: (name: string) => string | null, part: string): Map<string, Relationship> | null {
+  const root = parseXml(read(relationshipsPath(part)));
+  if (!root) return null;
+
+  const relationships = new Map<string, Relationship>();
+  for (const rel of findElements(root, 'Relationship')) {
+    const { Id: id, Type: type, Target: target, TargetMode: mode } = rel.attributes;
+    if (!id || !type || !target) continue;
+    relationships.set(id, {
+      id,
+      type,
+      part: mode === 'External' ? undefined
+        : target.startsWith('/') ? target.slice(1)
+        : path.posix.normalize(path.posix.join(path.posix.dirname(part), target)),
+    });
+  }
+  return relationships;
+}
+
+// Targets are written relative to the part again
+function relationshipsXml(relationships: Relationship[], part: string): string {
+  const escape = (value: string) => value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+  const items = relationships
+    .filter(rel => rel.part)
+    .map(rel => `<Relationship Id="${escape(rel.id)}" Type="${escape(rel.type)}" Target="${escape(path.posix.relative(path.posix.dirname(part), rel.part!))}"/>`);
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="${RELATIONSHIPS_NS}">${items.join('')}</Relationships>`;
+}
@@ -0,0 +1,146 @@
+import type { RootContent } from 'mdast';
+import { toString } from 'mdast-util-to-string';
+import { DetectedFormat, getConverter } from '@/lib/converters';
+import { parseMarkdown } from '@/lib/output';
+import type { PartKind, SelectionReport } from '@/lib/schemas';
+
+export type { PartKind, SelectionReport } from '@/lib/schemas';
+
+export interface PartMarker {
+  kind: PartKind;
+  // Page and slide numbers, or the sheet name
+  value: number | string;
+}
+
+// A `pages`, `slides` or `sheets` form field, e.g. "1-5,9" or "Summary,Q3"
+export interface PartSelection {
+  kind: PartKind;
+  spec: string;
+  // Inclusive number ranges; `end` is Infinity for open ranges like "10-"
+  ranges: { start: number; end: number }[];
+  // Sheet names, lower-cased
+  names: string[];
+}
+
+export class InvalidSelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidSelectionError';
+  }
+}
+
+const MAX_SPEC_LENGTH = 200;
+
+// file2md marks where pages, slides and sheets start with headings or comments such as
+// "## Slide 3", "<!-- page 2 -->" or "## Sheet: Revenue"
+const MARKER_COMMENT = /^<!--\s*(page|slide|sheet)\s*[:#]?\s*(.+?)\s*-->$/i;
+const MARKER_HEADING = /^(page|slide|sheet)\s*[:#]?\s*(.+)$/i;
+
+// The part a block starts, if it is one of the markers above and fits the document's format
+export function partMarker(node: RootContent, format: DetectedFormat): PartMarker | null {
+  let match: RegExpMatchArray | null = null;
+  if (node.type === 'html') {
+    match = node.value.trim().match(MARKER_COMMENT);
+  } else if (node.type === 'heading') {
+    match = toString(node, { includeHtml: false }).trim().match(MARKER_HEADING);
+  }
+  if (!match) return null;
+
+  const kind = `${match[1].toLowerCase()}s` as PartKind;
+  if (kind !== getConverter(format)?.parts) return null;
+  const value = match[2].trim();
+  if (kind === 'sheets') return { kind, value };
+
+  const number = Number.parseInt(value, 10);
+  return Number.isInteger(number) ? { kind, value: number } : null;
+}
+
+// Read the pages/slides/sheets form fields; at most one of them may be set
+export function parsePartSelection(formData: FormData): PartSelection | undefined {
+  const given = (['pages', 'slides', 'sheets'] as PartKind[])
+    .map(kind => ({ kind, spec: ((formData.get(kind) as string | null) ?? '').trim() }))
+    .filter(field => field.spec !== '');
+  if (given.length === 0) return undefined;
+  if (given.length > 1) {
+    throw new InvalidSelectionError('Send only one of pages, slides or sheets');
+  }
+
+  const { kind, spec } = given[0];
+  if (spec.length > MAX_SPEC_LENGTH) {
+    throw new InvalidSelectionError(`The ${kind} selection is too long`);
+  }
+
+  const selection: PartSelection = { kind, spec, ranges: [], names: [] };
+  for (const item of spec.split(',').map(s => s.trim()).filter(Boolean)) {
+    const range = item.match(/^(\d+)\s*(?:-\s*(\d*))?$/);
+    if (range) {
+      const start = Number.parseInt(range[1], 10);
+      const end = range[2] === undefined ? start : range[2] === '' ? Infinity : Number.parseInt(range[2], 10);
+      if (start < 1 || end < start) {
+        throw new InvalidSelectionError(`Invalid ${kind} range "${item}"`);
+      }
+      selection.ranges.push({ start, end });
+    } else if (kind === 'sheets') {
+      selection.names.push(item.toLowerCase());
+    } else {
+      throw new InvalidSelectionError(`Invalid ${kind} range "${item}": use numbers like 1-5,9`);
+    }
+  }
+  return selection;
+}
+
+// Whether the selection covers a part: pages and slides by number, sheets by name or by
+// their 1-based position in the workbook
+export function isPartSelected(selection: PartSelection, value: number | string, position: number): boolean {
+  const inRanges = (n: number) => selection.ranges.some(r => n >= r.start && n <= r.end);
+  return typeof value === 'string'
+    ? selection.names.includes(value.toLowerCase()) || inRanges(position)
+    : inRanges(value);
+}
+
+// Keep only the selected parts of converted markdown. Parts are cut at their markers, so
+// anything before the first marker is dropped along with the unselected parts. Sheets can
+// be picked by name or by position. Returns null when the markdown has no markers at all.
+export function selectParts(
+  markdown: string,
+  selection: PartSelection,
+  format: DetectedFormat
+): { markdown: string; report: SelectionReport } | null {
+  const tree = parseMarkdown(markdown);
+  const parts: { value: number | string; position: number; start: number }[] = [];
+  const definitions: { start: number; end: number }[] = [];
+
+  for (const node of tree.children) {
+    const start = node.position?.start.offset;
+    const end = node.position?.end.offset;
+    if (start === undefined || end === undefined) continue;
+    if (node.type === 'definition') definitions.push({ start, end });
+
+    const marker = partMarker(node, format);
+    if (marker) parts.push({ value: marker.value, position: parts.length + 1, start });
+  }
+  if (parts.length === 0) return null;
+
+  const kept: string[] = [];
+  const processed: (number | string)[] = [];
+  const keptRanges: { start: number; end: number }[] = [];
+  parts.forEach((part, i) => {
+    if (!isPartSelected(selection, part.value, part.position)) return;
+    const end = i + 1 < parts.length ? parts[i + 1].start : markdown.length;
+    kept.push(markdown.slice(part.start, end).trim());
+    keptRanges.push({ start: part.start, end });
+    processed.push(part.value);
+  });
+
+  // Reference-style links in the kept parts may point at definitions outside them
+  for (const definition of definitions) {
+    if (!keptRanges.some(r => definition.start >= r.start && definition.end <= r.end)) {
+      kept.push(markdown.slice(definition.start, definition.end));
+    }
+  }
+
+  return {
+    markdown: kept.length > 0 ? `${kept.join('\n\n')}\n` : '',
+    report: { kind: selection.kind, requested: selection.spec, processed, total: parts.length },
+  };
+}
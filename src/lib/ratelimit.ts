@@ -0,0 +1,229 @@
+import { NextRequest } from 'next/server';
+import { getPrincipal } from '@/lib/auth';
+import { ApiError, errorResponse } from '@/lib/errors';
+import { envInt } from '@/lib/numbers';
+
+// Requests a client may make per minute; override with RATE_LIMIT_REQUESTS_PER_MINUTE (0 disables)
+const DEFAULT_REQUESTS_PER_MINUTE = 30;
+// Upload bytes a client may send per day; override with RATE_LIMIT_BYTES_PER_DAY (0 disables)
+const DEFAULT_BYTES_PER_DAY = 1024 * 1024 * 1024; // 1GB
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RateLimitCounter {
+  value: number;
+  resetAt: number;
+}
+
+// Fixed-window counters. Swap in a shared store (Redis, etc.) with setRateLimitStore()
+// when running more than one server process.
+export interface RateLimitStore {
+  get(key: string): Promise<RateLimitCounter | null>;
+  increment(key: string, amount: number, windowMs: number): Promise<RateLimitCounter>;
+}
+
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, RateLimitCounter>();
+
+  async get(key: string): Promise<RateLimitCounter | null> {
+    const counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= Date.now()) return null;
+    return { ...counter };
+  }
+
+  async increment(key: string, amount: number, windowMs: number): Promise<RateLimitCounter> {
+    const now = Date.now();
+    this.prune(now);
+
+    let counter = this.counters.get(key);
+    if (!counter || counter.resetAt <= now) {
+      counter = { value: 0, resetAt: now + windowMs };
+      this.counters.set(key, counter);
+    }
+    counter.value += amount;
+    return { ...counter };
+  }
+
+  private prune(now: number): void {
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+export interface RateLimits {
+  requestsPerMinute: number;
+  bytesPerDay: number;
+}
+
+export type RateLimitDecision =
+  | { allowed: true; headers: Record<string, string> }
+  | { allowed: false; headers: Record<string, string>; error: string; limit: 'requests' | 'bytes'; retryAfter: number };
+
+const globalForRateLimit = globalThis as unknown as { file2mdRateLimitStore?: RateLimitStore };
+
+export function getRateLimitStore(): RateLimitStore {
+  if (!globalForRateLimit.file2mdRateLimitStore) {
+    globalForRateLimit.file2mdRateLimitStore = new MemoryRateLimitStore();
+  }
+  return globalForRateLimit.file2mdRateLimitStore;
+}
+
+export function setRateLimitStore(store: RateLimitStore): void {
+  globalForRateLimit.file2mdRateLimitStore = store;
+}
+
+export function getRateLimits(): RateLimits {
+  return {
+    requestsPerMinute: envInt('RATE_LIMIT_REQUESTS_PER_MINUTE', DEFAULT_REQUESTS_PER_MINUTE),
+    bytesPerDay: envInt('RATE_LIMIT_BYTES_PER_DAY', DEFAULT_BYTES_PER_DAY),
+  };
+}
+
+// TRUST_PROXY: how many reverse proxies sit in front of the server (`true` means one). Only
+// then is X-Forwarded-For believed.
+export function getTrustedProxyCount(): number {
+  if ((process.env.TRUST_PROXY ?? '').trim().toLowerCase() === 'true') return 1;
+  return envInt('TRUST_PROXY', 0, 1);
+}
+
+// The client's address as reported by a trusted proxy: the CLIENT_ADDRESS_HEADER it sets
+// (X-Real-IP, CF-Connecting-IP, ...), or the X-Forwarded-For entry TRUST_PROXY points at.
+// Route handlers cannot see the socket, and any header a client sends itself can be forged,
+// so without either setting there is no address to go by.
+function clientAddress(request: NextRequest): string | null {
+  const header = process.env.CLIENT_ADDRESS_HEADER?.trim();
+  if (header) {
+    return request.headers.get(header)?.trim() || null;
+  }
+  const proxies = getTrustedProxyCount();
+  if (proxies === 0) return null;
+  const forwarded = (request.headers.get('x-forwarded-for') ?? '').split(',').map(s => s.trim()).filter(Boolean);
+  // Each proxy appends the address it was contacted from; the outermost one saw the client
+  return forwarded[Math.max(0, forwarded.length - proxies)] ?? null;
+}
+
+// Callers with a valid API key are limited per key. Everyone else is limited per address when
+// a trusted proxy reports it, and otherwise shares one limit. Needs to run inside withAuth(),
+// which records the key; Authorization headers with unknown keys never get this far.
+export function rateLimitClientId(request: NextRequest): string {
+  const principal = getPrincipal(request);
+  if (principal?.startsWith('key:')) return principal;
+  const address = clientAddress(request);
+  return address ? `ip:${address}` : 'anonymous';
+}
+
+function secondsUntil(resetAt: number): number {
+  return Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+}
+
+function policyHeader(limits: RateLimits): string | null {
+  const policies = [];
+  if (limits.requestsPerMinute > 0) policies.push(`${limits.requestsPerMinute};w=60`);
+  if (limits.bytesPerDay > 0) policies.push(`${limits.bytesPerDay};w=86400;comment="bytes"`);
+  return policies.length > 0 ? policies.join(', ') : null;
+}
+
+function bytesExceeded(limits: RateLimits, resetAt: number, headers: Record<string, string>): Extract<RateLimitDecision, { allowed: false }> {
+  const reset = secondsUntil(resetAt);
+  headers['Retry-After'] = String(reset);
+  return {
+    allowed: false,
+    headers,
+    limit: 'bytes',
+    retryAfter: reset,
+    error: `Daily upload quota of ${Math.round(limits.bytesPerDay / (1024 * 1024))}MB reached; try again in ${Math.ceil(reset / 3600)} hour(s).`,
+  };
+}
+
+function rateLimitError(decision: Extract<RateLimitDecision, { allowed: false }>): ApiError {
+  return new ApiError('RATE_LIMITED', decision.error, {
+    details: { limit: decision.limit, retryAfter: decision.retryAfter },
+    headers: decision.headers,
+  });
+}
+
+// Count one request against the client's limits. A request whose Content-Length alone would
+// go over the daily byte quota is refused up front; the documents themselves are charged by
+// chargeDocumentBytes() once the route has them.
+export async function checkRateLimit(request: NextRequest): Promise<RateLimitDecision> {
+  const limits = getRateLimits();
+  const store = getRateLimitStore();
+  const client = rateLimitClientId(request);
+  const headers: Record<string, string> = {};
+
+  const policy = policyHeader(limits);
+  if (!policy) return { allowed: true, headers };
+  headers['RateLimit-Policy'] = policy;
+
+  if (limits.requestsPerMinute > 0) {
+    const requests = await store.increment(`req:${client}`, 1, MINUTE_MS);
+    const reset = secondsUntil(requests.resetAt);
+    headers['RateLimit-Limit'] = String(limits.requestsPerMinute);
+    headers['RateLimit-Remaining'] = String(Math.max(0, limits.requestsPerMinute - requests.value));
+    headers['RateLimit-Reset'] = String(reset);
+
+    if (requests.value > limits.requestsPerMinute) {
+      headers['Retry-After'] = String(reset);
+      return {
+        allowed: false,
+        headers,
+        limit: 'requests',
+        retryAfter: reset,
+        error: `Too many requests. Limit is ${limits.requestsPerMinute} per minute; try again in ${reset} seconds.`,
+      };
+    }
+  }
+
+  if (limits.bytesPerDay > 0) {
+    const bytes = Number.parseInt(request.headers.get('content-length') ?? '', 10) || 0;
+    const used = await store.get(`bytes:${client}`);
+    if ((used?.value ?? 0) + bytes > limits.bytesPerDay) {
+      return bytesExceeded(limits, used?.resetAt ?? Date.now() + DAY_MS, headers);
+    }
+  }
+
+  return { allowed: true, headers };
+}
+
+// Charge the documents a request converts against the client's daily byte quota: uploads by
+// their size and `url` documents by what was downloaded. Documents that would go over the
+// quota are refused with RATE_LIMITED and not charged.
+export async function chargeDocumentBytes(request: NextRequest, bytes: number): Promise<void> {
+  const limits = getRateLimits();
+  if (limits.bytesPerDay <= 0) return;
+
+  const store = getRateLimitStore();
+  const key = `bytes:${rateLimitClientId(request)}`;
+  const used = await store.get(key);
+  if ((used?.value ?? 0) + bytes > limits.bytesPerDay) {
+    const headers: Record<string, string> = {};
+    const policy = policyHeader(limits);
+    if (policy) headers['RateLimit-Policy'] = policy;
+    throw rateLimitError(bytesExceeded(limits, used?.resetAt ?? Date.now() + DAY_MS, headers));
+  }
+  await store.increment(key, bytes, DAY_MS);
+}
+
+export function rateLimitResponse(request: NextRequest, decision: Extract<RateLimitDecision, { allowed: false }>): Response {
+  return errorResponse(request, rateLimitError(decision));
+}
+
+// Wrap a route handler so it is rate limited and its responses carry the RateLimit-* headers
+export function withRateLimit<Args extends unknown[]>(
+  handler: (request: NextRequest, ...args: Args) => Promise<Response>
+): (request: NextRequest, ...args: Args) => Promise<Response> {
+  return async (request, ...args) => {
+    const decision = await checkRateLimit(request);
+    if (!decision.allowed) {
+      return rateLimitResponse(request, decision);
+    }
+
+    const response = await handler(request, ...args);
+    for (const [name, value] of Object.entries(decision.headers)) {
+      response.headers.set(name, value);
+    }
+    return response;
+  };
+}
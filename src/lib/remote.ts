@@ -0,0 +1,260 @@
+import { lookup as dnsLookup, LookupAddress, LookupOptions } from 'dns';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import path from 'path';
+import { MAX_SIZE } from '@/lib/convert';
+import { claimedFormats, detectFormat, isDocumentType } from '@/lib/converters';
+import { ApiError } from '@/lib/errors';
+import { envInt } from '@/lib/numbers';
+
+export interface FetchLimits {
+  timeoutMs: number;
+  maxRedirects: number;
+  maxBytes: number;
+}
+
+// Override with URL_FETCH_TIMEOUT_SECONDS
+const DEFAULT_TIMEOUT_SECONDS = 30;
+// Override with URL_FETCH_MAX_REDIRECTS
+const DEFAULT_MAX_REDIRECTS = 5;
+const MAX_URL_LENGTH = 2048;
+
+// Servers that do not know the document's type send one of these; the contents decide
+const GENERIC_TYPES = ['application/octet-stream', 'binary/octet-stream', 'application/download', 'application/force-download'];
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved addresses.
+// IPv4-mapped IPv6 addresses are matched against the IPv4 rules.
+const PRIVATE_RANGES: [string, number, 'ipv4' | 'ipv6'][] = [
+  ['0.0.0.0', 8, 'ipv4'],
+  ['10.0.0.0', 8, 'ipv4'],
+  ['100.64.0.0', 10, 'ipv4'],
+  ['127.0.0.0', 8, 'ipv4'],
+  ['169.254.0.0', 16, 'ipv4'],
+  ['172.16.0.0', 12, 'ipv4'],
+  ['192.0.0.0', 24, 'ipv4'],
+  ['192.0.2.0', 24, 'ipv4'],
+  ['192.168.0.0', 16, 'ipv4'],
+  ['198.18.0.0', 15, 'ipv4'],
+  ['198.51.100.0', 24, 'ipv4'],
+  ['203.0.113.0', 24, 'ipv4'],
+  ['224.0.0.0', 4, 'ipv4'],
+  ['240.0.0.0', 4, 'ipv4'],
+  ['::', 128, 'ipv6'],
+  ['::1', 128, 'ipv6'],
+  ['64:ff9b::', 96, 'ipv6'],
+  ['2001:db8::', 32, 'ipv6'],
+  ['fc00::', 7, 'ipv6'],
+  ['fe80::', 10, 'ipv6'],
+  ['ff00::', 8, 'ipv6'],
+];
+
+const privateRanges = new BlockList();
+for (const [network, prefix, type] of PRIVATE_RANGES) {
+  privateRanges.addSubnet(network, prefix, type);
+}
+
+export interface Allowlist {
+  // Exact host names, or suffixes for "*.example.com" entries (stored as ".example.com")
+  hosts: string[];
+  ranges: BlockList;
+}
+
+export function getFetchLimits(): FetchLimits {
+  return {
+    timeoutMs: envInt('URL_FETCH_TIMEOUT_SECONDS', DEFAULT_TIMEOUT_SECONDS) * 1000,
+    maxRedirects: envInt('URL_FETCH_MAX_REDIRECTS', DEFAULT_MAX_REDIRECTS),
+    maxBytes: MAX_SIZE,
+  };
+}
+
+// Comma-separated host names ("files.corp", "*.corp.example") and CIDR ranges ("10.20.0.0/16")
+// that may be contacted even though they are private: URL_FETCH_ALLOWLIST, WEBHOOK_ALLOWLIST
+export function parseAllowlist(value: string | undefined): Allowlist {
+  const allowlist: Allowlist = { hosts: [], ranges: new BlockList() };
+  for (const entry of (value ?? '').split(',').map(s => s.trim().toLowerCase()).filter(Boolean)) {
+    const [network, prefix] = entry.split('/');
+    const type = isIP(network);
+    if (type) {
+      const family = type === 4 ? 'ipv4' : 'ipv6';
+      allowlist.ranges.addSubnet(network, prefix ? Number.parseInt(prefix, 10) : type === 4 ? 32 : 128, family);
+    } else {
+      allowlist.hosts.push(entry.startsWith('*.') ? entry.slice(1) : entry);
+    }
+  }
+  return allowlist;
+}
+
+function hostAllowed(hostname: string, allowlist: Allowlist): boolean {
+  const host = hostname.toLowerCase();
+  return allowlist.hosts.some(entry => entry.startsWith('.') ? host.endsWith(entry) : host === entry);
+}
+
+function assertPublicAddress(address: string, hostname: string, allowlist: Allowlist): void {
+  const type = isIP(address) === 6 ? 'ipv6' : 'ipv4';
+  if (privateRanges.check(address, type) && !allowlist.ranges.check(address, type)) {
+    throw new ApiError('URL_NOT_ALLOWED', `${hostname} resolves to a private address and is not on the allowlist`);
+  }
+}
+
+// Checks every address a host name resolves to when the socket connects, so a DNS answer
+// cannot change between the check and the connection
+export function guardedLookup(allowlist: Allowlist) {
+  return (
+    hostname: string,
+    options: LookupOptions,
+    callback: (error: NodeJS.ErrnoException | null, address: string | LookupAddress[], family?: number) => void
+  ) => {
+    dnsLookup(hostname, { ...options, all: true }, (error, addresses) => {
+      if (error) return callback(error, []);
+      try {
+        if (!hostAllowed(hostname, allowlist)) {
+          for (const { address } of addresses) assertPublicAddress(address, hostname, allowlist);
+        }
+      } catch (blocked) {
+        return callback(blocked as NodeJS.ErrnoException, []);
+      }
+      if (options.all) callback(null, addresses);
+      else callback(null, addresses[0].address, addresses[0].family);
+    });
+  };
+}
+
+function parseUrl(value: string, base?: URL): URL {
+  let url: URL;
+  try {
+    url = new URL(value, base);
+  } catch {
+    throw new ApiError('INVALID_REQUEST', 'The url is not a valid URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ApiError('INVALID_REQUEST', 'Only http and https URLs can be fetched');
+  }
+  return url;
+}
+
+// IP literals never reach the lookup, so they are checked up front
+export function assertUrlAllowed(url: URL, allowlist: Allowlist): void {
+  const literal = url.hostname.replace(/^\[|\]$/g, '');
+  if (isIP(literal) && !hostAllowed(literal, allowlist)) {
+    assertPublicAddress(literal, literal, allowlist);
+  }
+}
+
+function get(url: URL, allowlist: Allowlist, signal: AbortSignal): Promise<IncomingMessage> {
+  assertUrlAllowed(url, allowlist);
+
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, {
+      signal,
+      lookup: guardedLookup(allowlist),
+      headers: {
+        'User-Agent': 'file2markdown',
+        Accept: 'application/pdf, application/vnd.openxmlformats-officedocument.*, application/x-hwp, application/octet-stream;q=0.5, */*;q=0.1',
+      },
+    }, resolve);
+    request.on('error', reject);
+  });
+}
+
+// filename / filename* from Content-Disposition, else the last path segment
+function fileNameFor(response: IncomingMessage, url: URL): string {
+  const disposition = response.headers['content-disposition'] ?? '';
+  const encoded = disposition.match(/filename\*\s*=\s*[\w-]+'[^']*'([^;]+)/i);
+  const plain = disposition.match(/filename\s*=\s*(?:"([^"]+)"|([^;]+))/i);
+  let name = '';
+  try {
+    name = encoded ? decodeURIComponent(encoded[1].trim())
+      : plain ? (plain[1] ?? plain[2]).trim()
+      : decodeURIComponent(url.pathname.split('/').pop() ?? '');
+  } catch {
+    // Badly encoded names fall back to the default below
+  }
+  return path.basename(name.replace(/\\/g, '/')) || 'document';
+}
+
+async function readBody(response: IncomingMessage, maxBytes: number): Promise<Buffer> {
+  const tooLarge = () => new ApiError('TOO_LARGE', `The document at the URL is larger than ${Math.round(maxBytes / (1024 * 1024))}MB`);
+  const declared = Number.parseInt(response.headers['content-length'] ?? '', 10);
+  if (declared > maxBytes) {
+    response.destroy();
+    throw tooLarge();
+  }
+
+  const chunks: Buffer[] = [];
+  let total = 0;
+  for await (const chunk of response) {
+    total += chunk.length;
+    if (total > maxBytes) {
+      response.destroy();
+      throw tooLarge();
+    }
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+// Download a document for conversion. Redirects are followed up to the cap and each hop is
+// checked again; private addresses are refused unless URL_FETCH_ALLOWLIST covers them. The
+// result is a File so it goes through validateUpload() like an upload.
+export async function fetchRemoteFile(rawUrl: string, signal?: AbortSignal): Promise<File> {
+  if (rawUrl.length > MAX_URL_LENGTH) {
+    throw new ApiError('INVALID_REQUEST', 'The url is too long');
+  }
+  let url = parseUrl(rawUrl.trim());
+  const limits = getFetchLimits();
+  const allowlist = parseAllowlist(process.env.URL_FETCH_ALLOWLIST);
+  const timeout = limits.timeoutMs > 0 ? AbortSignal.timeout(limits.timeoutMs) : undefined;
+  const combined = AbortSignal.any([signal, timeout].filter((s): s is AbortSignal => s !== undefined));
+
+  try {
+    let response = await get(url, allowlist, combined);
+    for (let redirects = 0; response.statusCode && response.statusCode >= 300 && response.statusCode < 400; redirects++) {
+      const location = response.headers.location;
+      response.resume();
+      if (!location) break;
+      if (redirects >= limits.maxRedirects) {
+        throw new ApiError('FETCH_FAILED', `The URL redirected more than ${limits.maxRedirects} times`);
+      }
+      url = parseUrl(location, url);
+      response = await get(url, allowlist, combined);
+    }
+
+    const status = response.statusCode ?? 0;
+    if (status < 200 || status >= 300) {
+      response.resume();
+      throw new ApiError('FETCH_FAILED', `The URL answered with HTTP ${status}`);
+    }
+
+    // Refuse anything no converter takes, such as JSON error bodies or images
+    const type = (response.headers['content-type'] ?? '').split(';')[0].trim().toLowerCase();
+    if (type && !isDocumentType(type) && !GENERIC_TYPES.includes(type)) {
+      response.resume();
+      throw new ApiError('UNSUPPORTED_TYPE', `The URL returned ${type}, not a supported document`);
+    }
+
+    const buffer = await readBody(response, limits.maxBytes);
+    let name = fileNameFor(response, url);
+    // URLs like /download?id=42 carry no extension; name the file after its contents
+    if (claimedFormats({ name }).byExtension.length === 0) {
+      const detected = detectFormat(buffer, { type });
+      if (detected) name = `${name}.${detected}`;
+    }
+    return new File([new Uint8Array(buffer)], name, { type: isDocumentType(type) ? type : '' });
+  } catch (error) {
+    if (error instanceof ApiError) throw error;
+    if (signal?.aborted) throw new ApiError('CANCELLED', 'The conversion was cancelled');
+    if (timeout?.aborted) {
+      throw new ApiError('FETCH_FAILED', `Fetching the URL took longer than ${limits.timeoutMs / 1000} seconds`);
+    }
+    const code = (error as NodeJS.ErrnoException).code;
+    throw new ApiError('FETCH_FAILED', `The URL could not be fetched${code ? ` (${code})` : ''}`, { cause: error });
+  }
+}
+
+// The `url` form field, sent instead of `file`
+export function readSourceUrl(formData: FormData): string | null {
+  const value = formData.get('url');
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+}
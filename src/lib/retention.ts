@@ -0,0 +1,172 @@
+import { pruneCache, CachePruneReport } from '@/lib/cache';
+import { envInt } from '@/lib/numbers';
+import { StorageDriver, getScratchStorage, getStorage, manifestKey, MANIFESTS_PREFIX } from '@/lib/storage';
+
+// How long conversion results are kept; override with ARTIFACT_TTL_SECONDS
+const DEFAULT_TTL_SECONDS = 60 * 60; // 1 hour
+// How often the in-process scheduler sweeps; override with RETENTION_SWEEP_INTERVAL_SECONDS (0 disables)
+const DEFAULT_SWEEP_INTERVAL_SECONDS = 10 * 60; // 10 minutes
+// Scratch files only live for the duration of a conversion
+const SCRATCH_MAX_AGE_MS = 60 * 60 * 1000; // 1 hour
+
+export interface ArtifactManifest {
+  id: string;
+  createdAt: string;
+  expiresAt: string;
+  artifacts: { key: string; bytes: number }[];
+}
+
+export interface RemovedObject {
+  key: string;
+  bytes: number;
+  reason: 'expired' | 'orphaned' | 'scratch';
+}
+
+export interface SweepReport {
+  dryRun: boolean;
+  manifestsScanned: number;
+  manifestsExpired: number;
+  removed: RemovedObject[];
+  freedBytes: number;
+  cache: CachePruneReport;
+}
+
+export function getArtifactTtlSeconds(): number {
+  return envInt('ARTIFACT_TTL_SECONDS', DEFAULT_TTL_SECONDS, 1);
+}
+
+// Record everything a conversion stored so the sweep can delete it as one unit
+export async function writeManifest(id: string, keys: string[]): Promise<ArtifactManifest> {
+  const storage = getStorage();
+  const now = Date.now();
+
+  const artifacts = [];
+  for (const key of keys) {
+    const info = await storage.stat(key);
+    artifacts.push({ key, bytes: info?.size ?? 0 });
+  }
+
+  const manifest: ArtifactManifest = {
+    id,
+    createdAt: new Date(now).toISOString(),
+    expiresAt: new Date(now + getArtifactTtlSeconds() * 1000).toISOString(),
+    artifacts,
+  };
+  await storage.put(manifestKey(id), JSON.stringify(manifest, null, 2), 'application/json');
+  return manifest;
+}
+
+// Delete expired manifests and their artifacts. Objects no manifest claims (interrupted
+// conversions, queued uploads of a crashed process) are removed once they outlive the TTL.
+export async function sweepExpiredArtifacts(options: { dryRun?: boolean } = {}): Promise<SweepReport> {
+  const dryRun = !!options.dryRun;
+  const storage = getStorage();
+  const now = Date.now();
+  const removed: RemovedObject[] = [];
+
+  const remove = async (target: StorageDriver, key: string, bytes: number, reason: RemovedObject['reason']) => {
+    if (!dryRun) {
+      try {
+        await target.delete(key);
+      } catch {
+        // Failed to remove file; it will be retried on the next sweep
+        return;
+      }
+    }
+    removed.push({ key, bytes, reason });
+  };
+
+  const objects = await storage.list('');
+  const sizes = new Map(objects.map(o => [o.key, o.size]));
+  const claimed = new Set<string>();
+  let manifestsScanned = 0;
+  let manifestsExpired = 0;
+
+  for (const object of objects) {
+    if (!object.key.startsWith(MANIFESTS_PREFIX)) continue;
+    manifestsScanned++;
+
+    const raw = await storage.get(object.key);
+    let manifest: ArtifactManifest | null = null;
+    try {
+      manifest = raw ? JSON.parse(raw.toString('utf-8')) as ArtifactManifest : null;
+    } catch {
+      manifest = null;
+    }
+
+    // An unreadable manifest is kept until it is old enough to count as orphaned
+    if (!manifest) continue;
+
+    claimed.add(object.key);
+    manifest.artifacts.forEach(a => claimed.add(a.key));
+
+    if (Date.parse(manifest.expiresAt) > now) continue;
+    manifestsExpired++;
+
+    for (const artifact of manifest.artifacts) {
+      if (sizes.has(artifact.key)) {
+        await remove(storage, artifact.key, sizes.get(artifact.key) ?? artifact.bytes, 'expired');
+      }
+    }
+    await remove(storage, object.key, object.size, 'expired');
+  }
+
+  const orphanCutoff = now - getArtifactTtlSeconds() * 1000;
+  for (const object of objects) {
+    if (claimed.has(object.key)) continue;
+    if (object.lastModified.getTime() < orphanCutoff) {
+      await remove(storage, object.key, object.size, 'orphaned');
+    }
+  }
+
+  const scratch = getScratchStorage();
+  for (const object of await scratch.list('')) {
+    if (now - object.lastModified.getTime() > SCRATCH_MAX_AGE_MS) {
+      await remove(scratch, object.key, object.size, 'scratch');
+    }
+  }
+
+  // Keep the conversion cache under its size cap
+  const cache = await pruneCache({ dryRun });
+
+  return {
+    dryRun,
+    manifestsScanned,
+    manifestsExpired,
+    removed,
+    freedBytes: removed.reduce((sum, r) => sum + r.bytes, 0),
+    cache,
+  };
+}
+
+const globalForRetention = globalThis as unknown as { file2mdRetentionTimer?: ReturnType<typeof setInterval> };
+
+// Started once per server process from instrumentation.ts; independent of page traffic
+export function startRetentionScheduler(): void {
+  if (globalForRetention.file2mdRetentionTimer) return;
+
+  const intervalSeconds = envInt('RETENTION_SWEEP_INTERVAL_SECONDS', DEFAULT_SWEEP_INTERVAL_SECONDS);
+  if (intervalSeconds === 0) return;
+
+  let running = false;
+  const timer = setInterval(() => {
+    if (running) return;
+    running = true;
+    sweepExpiredArtifacts()
+      .then(report => {
+        if (report.removed.length > 0) {
+          console.log(`Retention sweep removed ${report.removed.length} objects (${report.freedBytes} bytes)`);
+        }
+      })
+      .catch(error => {
+        console.error('Retention sweep failed:', error instanceof Error ? error.message : error);
+      })
+      .finally(() => {
+        running = false;
+      });
+  }, intervalSeconds * 1000);
+
+  // Never keep the process alive just for the sweep
+  timer.unref?.();
+  globalForRetention.file2mdRetentionTimer = timer;
+}
@@ -0,0 +1,325 @@
+import { z } from 'zod';
+
+// Request and response shapes of the conversion API. The server's types, the OpenAPI document
+// (src/lib/openapi.ts) and the typed client (src/lib/client.ts) are all derived from these, so
+// this module only depends on zod and is safe to import in the browser.
+
+// Stable, machine-readable error codes; clients switch on these rather than on messages
+export const errorCodeSchema = z.enum([
+  'INVALID_REQUEST',
+  'UNAUTHORIZED',
+  'FORBIDDEN',
+  'URL_NOT_ALLOWED',
+  'NOT_FOUND',
+  'NOT_READY',
+  'EXPIRED',
+  'TOO_LARGE',
+  'UNSUPPORTED_TYPE',
+  'ENCRYPTED_DOCUMENT',
+  'CORRUPT_FILE',
+  'SELECTION_NOT_FOUND',
+  'BATCH_FAILED',
+  'MEMORY_LIMIT',
+  'CANCELLED',
+  'RATE_LIMITED',
+  'INTERNAL',
+  'FETCH_FAILED',
+  'QUEUE_FULL',
+  'TIMEOUT',
+]);
+
+export const outputFormatSchema = z.enum(['markdown', 'html', 'text', 'mdast']);
+export const imageFormatSchema = z.enum(['original', 'webp', 'avif', 'jpeg']);
+export const downloadModeSchema = z.enum(['link', 'dataurl']);
+// The units a document is made of: pages (PDF, Word, HWP), slides (PowerPoint) or sheets (Excel)
+export const partKindSchema = z.enum(['pages', 'slides', 'sheets']);
+
+// Form fields are text; the server has always read these case-insensitively
+const booleanField = z.stringbool({ truthy: ['true'], falsy: ['false'], case: 'insensitive' });
+const integerField = z.coerce.number().int();
+function choiceField<T extends z.ZodType<string, string>>(choices: T) {
+  return z.string().toLowerCase().pipe(choices);
+}
+
+// The text fields of a conversion request (POST /api/convert, /api/convert/stream and
+// /api/jobs), next to the `file` fields. Numbers outside their range are clamped.
+export const convertFieldsSchema = z.object({
+  url: z.string().describe('Document for the server to download, instead of a file').optional(),
+  preserveLayout: booleanField.optional(),
+  extractImages: booleanField.describe('Default true').optional(),
+  extractCharts: booleanField.describe('Default true').optional(),
+  downloadMode: choiceField(downloadModeSchema).optional(),
+  singleUse: booleanField.describe('Make the download link work once').optional(),
+  outputFormat: choiceField(outputFormatSchema).optional(),
+  frontMatter: booleanField.describe('Start markdown downloads with YAML front matter').optional(),
+  optimizeImages: booleanField.optional(),
+  imageFormat: choiceField(imageFormatSchema).optional(),
+  imageMaxDimension: integerField.describe('0-16384 pixels, default 1920; 0 keeps the size').optional(),
+  imageQuality: integerField.describe('1-100, default 80').optional(),
+  embedImages: booleanField.describe('Inline images as data: URIs').optional(),
+  chunks: booleanField.describe('Also split the document into retrieval chunks').optional(),
+  chunkSize: integerField.describe('64-8192 tokens, default 512').optional(),
+  chunkOverlap: integerField.describe('Default 64, at most half of chunkSize').optional(),
+  pages: z.string().max(200).describe('e.g. 1-5,9').optional(),
+  slides: z.string().max(200).describe('e.g. 10-').optional(),
+  sheets: z.string().max(200).describe('Names or positions, e.g. Summary,3').optional(),
+  callbackUrl: z.string().max(2048).describe('POST a signed WebhookPayload here when the conversion finishes').optional(),
+});
+
+export const chunkSchema = z.object({
+  id: z.string(),
+  index: z.number().int(),
+  source: z.string(),
+  text: z.string(),
+  headingPath: z.array(z.string()).describe('Titles of the enclosing headings, outermost first'),
+  // Where the chunk starts in the source document, when the markdown says so
+  page: z.number().int().optional(),
+  slide: z.number().int().optional(),
+  sheet: z.string().optional(),
+  tokens: z.number().int(),
+});
+
+export const imageOptimizationReportSchema = z.object({
+  bytesBefore: z.number().int(),
+  bytesAfter: z.number().int(),
+  optimized: z.number().int(),
+  duplicatesRemoved: z.number().int(),
+});
+
+export const embedReportSchema = z.object({
+  inlined: z.number().int(),
+  external: z.number().int().describe('Images left as files because they were too big or not web images'),
+  inlinedBytes: z.number().int(),
+});
+
+export const selectionReportSchema = z.object({
+  kind: partKindSchema,
+  requested: z.string(),
+  processed: z.array(z.union([z.number().int(), z.string()])),
+  total: z.number().int(),
+});
+
+export const conversionStatsSchema = z.object({
+  inputBytes: z.number().int(),
+  markdownBytes: z.number().int(),
+  compressionRatio: z.number().nullable(),
+  imageCount: z.number().int(),
+  chartCount: z.number().int(),
+  processingTimeMs: z.number().optional(),
+  cached: z.boolean().describe('The result was served from the conversion cache'),
+  imageOptimization: imageOptimizationReportSchema.describe('Sent when optimizeImages was requested').optional(),
+  selection: selectionReportSchema.describe('Sent when pages, slides or sheets were selected').optional(),
+});
+
+// One converted file; also what a job keeps as its result
+export const conversionResultSchema = z.object({
+  filename: z.string(),
+  hasImages: z.boolean(),
+  downloadUrl: z.string(),
+  markdown: z.string(),
+  imageCount: z.number().int(),
+  chartCount: z.number().int(),
+  metadata: z.record(z.string(), z.unknown()),
+  stats: conversionStatsSchema,
+  detectedFormat: z.string().describe('Format detected from the file\'s contents'),
+  outputFormat: outputFormatSchema,
+  preview: z.string().describe('The preview rendered in outputFormat; omitted for markdown').optional(),
+  embeddedImages: embedReportSchema.describe('Sent when embedImages was requested').optional(),
+  expiresAt: z.string().describe('When the stored download and preview images are deleted').optional(),
+  chunks: z.array(chunkSchema).describe('Sent when chunks were requested; also in the ZIP as <name>.chunks.jsonl').optional(),
+});
+
+export const conversionResponseSchema = conversionResultSchema.extend({
+  success: z.literal(true),
+  webhookUrl: z.string().describe('Delivery log of the callback; sent when callbackUrl was given').optional(),
+});
+
+// Per-file entry of a batch; failed files only carry the error
+export const batchFileResultSchema = z.object({
+  name: z.string(),
+  success: z.boolean(),
+  error: z.string().optional(),
+  code: errorCodeSchema.optional(),
+  markdown: z.string().optional(),
+  hasImages: z.boolean().optional(),
+  imageCount: z.number().int().optional(),
+  chartCount: z.number().int().optional(),
+  metadata: z.record(z.string(), z.unknown()).optional(),
+  stats: conversionStatsSchema.optional(),
+  detectedFormat: z.string().optional(),
+  chunks: z.array(chunkSchema).optional(),
+});
+
+export const batchConversionResponseSchema = z.object({
+  success: z.literal(true),
+  batch: z.literal(true),
+  filename: z.string(),
+  downloadUrl: z.string().describe('One ZIP with a folder per converted file'),
+  expiresAt: z.string().optional(),
+  succeeded: z.number().int(),
+  failed: z.number().int(),
+  results: z.array(batchFileResultSchema),
+});
+
+// Body of every error response; some codes add fields of their own
+export const errorBodySchema = z.looseObject({
+  success: z.literal(false),
+  error: z.string().describe('Human-readable message'),
+  code: errorCodeSchema,
+  requestId: z.string(),
+});
+
+// BATCH_FAILED: every file of a batch failed
+export const batchFailureSchema = errorBodySchema.extend({
+  code: z.literal('BATCH_FAILED'),
+  batch: z.literal(true),
+  succeeded: z.literal(0),
+  failed: z.number().int(),
+  results: z.array(batchFileResultSchema),
+});
+
+// Stages reported while a conversion runs (streamed over SSE)
+export const conversionStageSchema = z.enum(['received', 'parsing', 'images', 'zip', 'done']);
+
+export const conversionProgressSchema = z.object({
+  stage: conversionStageSchema,
+  message: z.string(),
+  bytes: z.number().int().optional(),
+  imageCount: z.number().int().optional(),
+});
+
+export const formatInfoSchema = z.object({
+  format: z.string(),
+  label: z.string(),
+  extensions: z.array(z.string()).describe('Lower-case, with the dot'),
+  mimeTypes: z.array(z.string()),
+  parts: partKindSchema.describe('What the pages, slides or sheets field selects').optional(),
+});
+
+export const formatsResponseSchema = z.object({
+  success: z.literal(true),
+  formats: z.array(formatInfoSchema),
+  accept: z.record(z.string(), z.array(z.string())).describe('react-dropzone\'s accept option'),
+  maxFileBytes: z.number().int(),
+});
+
+export const jobStatusSchema = z.enum(['queued', 'running', 'succeeded', 'failed']);
+
+// Public view of a job: never includes the upload or the result body
+export const jobSummarySchema = z.object({
+  id: z.string(),
+  status: jobStatusSchema,
+  name: z.string(),
+  createdAt: z.string(),
+  requestId: z.string().optional(),
+  startedAt: z.string().optional(),
+  finishedAt: z.string().optional(),
+  error: z.string().optional(),
+  errorCode: errorCodeSchema.optional(),
+  queuePosition: z.number().int().optional(),
+  resultUrl: z.string().optional(),
+  webhookUrl: z.string().describe('Delivery log of the callback; sent when callbackUrl was given').optional(),
+});
+
+export const jobSubmittedResponseSchema = z.object({
+  success: z.literal(true),
+  jobId: z.string(),
+  job: jobSummarySchema,
+  statusUrl: z.string(),
+});
+
+export const jobResponseSchema = z.object({
+  success: z.literal(true),
+  job: jobSummarySchema,
+});
+
+export const sessionResponseSchema = z.object({
+  success: z.literal(true),
+  authRequired: z.boolean(),
+});
+
+export const cleanupResponseSchema = z.looseObject({
+  success: z.literal(true),
+  message: z.string(),
+  dryRun: z.boolean(),
+});
+
+export const webhookEventSchema = z.enum(['conversion.succeeded', 'conversion.failed']);
+
+// Body POSTed to a callbackUrl. The X-File2md-Signature header signs it:
+// t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>" keyed with WEBHOOK_SECRET>
+export const webhookPayloadSchema = z.object({
+  id: z.string().describe('Delivery ID; the same for every retry, so receivers can ignore repeats'),
+  event: webhookEventSchema,
+  conversionId: z.string().describe('Job ID, or the conversion\'s own ID for /api/convert'),
+  createdAt: z.string(),
+  requestId: z.string().optional(),
+  name: z.string().describe('Name of the uploaded or fetched document'),
+  filename: z.string().optional(),
+  detectedFormat: z.string().optional(),
+  outputFormat: outputFormatSchema.optional(),
+  downloadUrl: z.string().describe('Absolute; omitted for data: URLs').optional(),
+  expiresAt: z.string().optional(),
+  stats: conversionStatsSchema.optional(),
+  error: z.string().optional(),
+  code: errorCodeSchema.optional(),
+});
+
+export const webhookDeliveryStatusSchema = z.enum(['pending', 'delivered', 'failed']);
+
+export const webhookAttemptSchema = z.object({
+  attempt: z.number().int(),
+  at: z.string(),
+  durationMs: z.number().int(),
+  statusCode: z.number().int().describe('Absent when no response came back').optional(),
+  error: z.string().optional(),
+});
+
+export const webhookDeliverySchema = z.object({
+  id: z.string(),
+  conversionId: z.string(),
+  event: webhookEventSchema,
+  callbackUrl: z.string(),
+  status: webhookDeliveryStatusSchema,
+  createdAt: z.string(),
+  nextAttemptAt: z.string().describe('Set while a retry is scheduled').optional(),
+  attempts: z.array(webhookAttemptSchema),
+});
+
+export const webhookResponseSchema = z.object({
+  success: z.literal(true),
+  delivery: webhookDeliverySchema,
+});
+
+export type ErrorCode = z.infer<typeof errorCodeSchema>;
+export type OutputFormat = z.infer<typeof outputFormatSchema>;
+export type ImageFormat = z.infer<typeof imageFormatSchema>;
+export type DownloadMode = z.infer<typeof downloadModeSchema>;
+export type PartKind = z.infer<typeof partKindSchema>;
+export type ConvertFields = z.infer<typeof convertFieldsSchema>;
+export type Chunk = z.infer<typeof chunkSchema>;
+export type ImageOptimizationReport = z.infer<typeof imageOptimizationReportSchema>;
+export type EmbedReport = z.infer<typeof embedReportSchema>;
+export type SelectionReport = z.infer<typeof selectionReportSchema>;
+export type ConversionStats = z.infer<typeof conversionStatsSchema>;
+export type ConversionResult = z.infer<typeof conversionResultSchema>;
+export type ConversionResponse = z.infer<typeof conversionResponseSchema>;
+export type BatchFileResult = z.infer<typeof batchFileResultSchema>;
+export type BatchConversionResponse = z.infer<typeof batchConversionResponseSchema>;
+export type ErrorBody = z.infer<typeof errorBodySchema>;
+export type BatchFailure = z.infer<typeof batchFailureSchema>;
+export type ConversionStage = z.infer<typeof conversionStageSchema>;
+export type ConversionProgress = z.infer<typeof conversionProgressSchema>;
+export type FormatInfo = z.infer<typeof formatInfoSchema>;
+export type FormatsResponse = z.infer<typeof formatsResponseSchema>;
+export type JobStatus = z.infer<typeof jobStatusSchema>;
+export type JobSummary = z.infer<typeof jobSummarySchema>;
+export type JobSubmittedResponse = z.infer<typeof jobSubmittedResponseSchema>;
+export type JobResponse = z.infer<typeof jobResponseSchema>;
+export type SessionResponse = z.infer<typeof sessionResponseSchema>;
+export type WebhookEvent = z.infer<typeof webhookEventSchema>;
+export type WebhookPayload = z.infer<typeof webhookPayloadSchema>;
+export type WebhookDeliveryStatus = z.infer<typeof webhookDeliveryStatusSchema>;
+export type WebhookAttempt = z.infer<typeof webhookAttemptSchema>;
+export type WebhookDelivery = z.infer<typeof webhookDeliverySchema>;
+export type WebhookResponse = z.infer<typeof webhookResponseSchema>;
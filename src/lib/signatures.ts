@@ -0,0 +1,37 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+
+// Webhook signatures, shared by the server that sends them and receivers such as
+// `file2md-client listen`. Only depends on node:crypto.
+
+export const SIGNATURE_HEADER = 'X-File2md-Signature';
+// Receivers refuse signatures older than this, so a captured request cannot be replayed later
+export const DEFAULT_TOLERANCE_SECONDS = 5 * 60;
+
+function digest(body: string, timestamp: number, secret: string): string {
+  return createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+}
+
+// Value of the signature header: t=<unix seconds>,v1=<hex HMAC-SHA256 of "<t>.<body>">
+export function signPayload(body: string, secret: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${digest(body, timestamp, secret)}`;
+}
+
+export function verifySignature(
+  body: string,
+  header: string | null | undefined,
+  secret: string,
+  toleranceSeconds = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  const parts = new Map((header ?? '').split(',').map(part => {
+    const [key, ...value] = part.trim().split('=');
+    return [key, value.join('=')] as const;
+  }));
+  const timestamp = Number.parseInt(parts.get('t') ?? '', 10);
+  const signature = parts.get('v1');
+  if (!Number.isFinite(timestamp) || !signature) return false;
+  if (Math.abs(Date.now() / 1000 - timestamp) > toleranceSeconds) return false;
+
+  const expected = Buffer.from(digest(body, timestamp, secret), 'hex');
+  const actual = Buffer.from(signature, 'hex');
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
@@ -0,0 +1,112 @@
+import { inflateRawSync } from 'zlib';
+
+// Byte-level helpers converters use to recognise their formats from the file's own contents
+
+// Local file header of a ZIP archive; OOXML, HWPX and OpenDocument files are ZIP packages
+export const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+
+// Package parts read for detection are tiny; refuse to inflate anything bigger
+const MAX_PART_BYTES = 1024 * 1024;
+// Text formats are recognised from their start
+const TEXT_SNIFF_BYTES = 64 * 1024;
+
+export interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  // As the archive states it; inflating is still capped, since the archive can lie
+  uncompressedSize: number;
+  localHeaderOffset: number;
+}
+
+export function hasMagic(buffer: Buffer, magic: Buffer, window = 0): boolean {
+  return window > 0
+    ? buffer.subarray(0, window + magic.length).includes(magic)
+    : buffer.subarray(0, magic.length).equals(magic);
+}
+
+// Read the central directory (ZIP64 archives are not needed for documents this size)
+export function readZipDirectory(buffer: Buffer): Map<string, ZipEntry> | null {
+  const searchStart = Math.max(0, buffer.length - 0xffff - 22);
+  let eocd = -1;
+  for (let i = buffer.length - 22; i >= searchStart; i--) {
+    if (buffer.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) return null;
+
+  const count = buffer.readUInt16LE(eocd + 10);
+  let offset = buffer.readUInt32LE(eocd + 16);
+  const entries = new Map<string, ZipEntry>();
+
+  for (let i = 0; i < count; i++) {
+    if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== 0x02014b50) return null;
+    const nameLength = buffer.readUInt16LE(offset + 28);
+    const extraLength = buffer.readUInt16LE(offset + 30);
+    const commentLength = buffer.readUInt16LE(offset + 32);
+    const name = buffer.toString('utf-8', offset + 46, offset + 46 + nameLength);
+    entries.set(name, {
+      method: buffer.readUInt16LE(offset + 10),
+      compressedSize: buffer.readUInt32LE(offset + 20),
+      uncompressedSize: buffer.readUInt32LE(offset + 24),
+      localHeaderOffset: buffer.readUInt32LE(offset + 42),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+}
+
+export function readZipEntry(buffer: Buffer, entry: ZipEntry, maxBytes = MAX_PART_BYTES): Buffer | null {
+  const header = entry.localHeaderOffset;
+  if (header + 30 > buffer.length || buffer.readUInt32LE(header) !== 0x04034b50) return null;
+
+  const start = header + 30 + buffer.readUInt16LE(header + 26) + buffer.readUInt16LE(header + 28);
+  const data = buffer.subarray(start, start + entry.compressedSize);
+  try {
+    if (entry.method === 0) return data.subarray(0, maxBytes);
+    if (entry.method === 8) return inflateRawSync(data, { maxOutputLength: maxBytes });
+  } catch {
+    // Damaged or oversized part
+  }
+  return null;
+}
+
+// A small text part of a ZIP package, such as [Content_Types].xml or mimetype
+export function readZipText(buffer: Buffer, name: string): string | null {
+  const entry = readZipDirectory(buffer)?.get(name);
+  return entry ? readZipEntry(buffer, entry)?.toString('utf-8') ?? null : null;
+}
+
+// Decode UTF-8 or UTF-16 (with BOM) text; null for anything that looks binary. Other legacy
+// encodings are not guessed.
+export function decodeText(buffer: Buffer, limit = Infinity): string | null {
+  const sample = buffer.subarray(0, limit);
+  const encoding = sample[0] === 0xff && sample[1] === 0xfe ? 'utf-16le'
+    : sample[0] === 0xfe && sample[1] === 0xff ? 'utf-16be'
+    : 'utf-8';
+  if (encoding === 'utf-8' && sample.includes(0)) return null;
+
+  // A sample may end inside a multi-byte character; drop up to three bytes before giving up
+  const maxCut = sample.length < buffer.length ? 3 : 0;
+  for (let cut = 0; cut <= maxCut; cut++) {
+    let text: string;
+    try {
+      text = new TextDecoder(encoding, { fatal: true }).decode(sample.subarray(0, sample.length - cut));
+    } catch {
+      continue;
+    }
+    // Control characters other than tab, newline, form feed and carriage return mean binary data
+    return /[\x00-\x08\x0b\x0e-\x1f]/.test(text) ? null : text;
+  }
+  return null;
+}
+
+// The decoded start of the buffer, for detectors of text formats
+export function textStart(buffer: Buffer): string | null {
+  return decodeText(buffer, TEXT_SNIFF_BYTES);
+}
+
+export function looksLikeText(buffer: Buffer): boolean {
+  return buffer.length > 0 && textStart(buffer) !== null;
+}
@@ -0,0 +1,55 @@
+import assert from 'node:assert/strict';
+import { afterEach, describe, it } from 'node:test';
+import { artifactKey, getStorage, imageKey, manifestKey, uploadKey } from './index';
+
+const STORAGE_ENV = ['STORAGE_DRIVER', 'STORAGE_LOCAL_ROOT', 'S3_BUCKET', 'S3_ENDPOINT'];
+const saved = Object.fromEntries(STORAGE_ENV.map(name => [name, process.env[name]]));
+const globalForStorage = globalThis as unknown as { file2mdStorage?: unknown };
+
+describe('getStorage', () => {
+  afterEach(() => {
+    for (const name of STORAGE_ENV) {
+      if (saved[name] === undefined) delete process.env[name];
+      else process.env[name] = saved[name];
+    }
+    // getStorage() keeps the driver for the process; start every test without one
+    delete globalForStorage.file2mdStorage;
+  });
+
+  it('uses the local driver by default', () => {
+    delete process.env.STORAGE_DRIVER;
+    assert.equal(getStorage().name, 'local');
+  });
+
+  it('keeps one driver per process', () => {
+    process.env.STORAGE_DRIVER = 'local';
+    assert.equal(getStorage(), getStorage());
+  });
+
+  it('picks the S3 driver, case-insensitively', () => {
+    process.env.STORAGE_DRIVER = 'S3';
+    process.env.S3_BUCKET = 'file2md';
+    process.env.S3_ENDPOINT = 'http://localhost:9000';
+    assert.equal(getStorage().name, 's3');
+  });
+
+  it('requires a bucket for S3', () => {
+    process.env.STORAGE_DRIVER = 's3';
+    delete process.env.S3_BUCKET;
+    assert.throws(() => getStorage(), /requires S3_BUCKET/);
+  });
+
+  it('refuses unknown drivers', () => {
+    process.env.STORAGE_DRIVER = 'ftp';
+    assert.throws(() => getStorage(), /Unknown STORAGE_DRIVER: ftp/);
+  });
+});
+
+describe('storage keys', () => {
+  it('places each kind of object under its prefix', () => {
+    assert.equal(uploadKey('abc', 'doc.pdf'), 'uploads/abc/doc.pdf');
+    assert.equal(imageKey('abc', 'img_1.png'), 'images/abc/img_1.png');
+    assert.equal(artifactKey('report__abc.zip'), 'artifacts/report__abc.zip');
+    assert.equal(manifestKey('abc'), 'manifests/abc.json');
+  });
+});
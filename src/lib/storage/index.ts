@@ -0,0 +1,93 @@
+import { mkdir } from 'fs/promises';
+import { existsSync } from 'fs';
+import path from 'path';
+import { LocalStorage } from './local';
+import { S3Storage } from './s3';
+import type { StorageDriver } from './types';
+
+export type { StorageDriver, StorageObject, StorageStream } from './types';
+
+// Key prefixes inside the storage backend
+export const UPLOADS_PREFIX = 'uploads/';
+export const IMAGES_PREFIX = 'images/';
+export const ARTIFACTS_PREFIX = 'artifacts/';
+export const MANIFESTS_PREFIX = 'manifests/';
+
+export function uploadKey(fileId: string, fileName: string): string {
+  return `${UPLOADS_PREFIX}${fileId}/${fileName}`;
+}
+
+export function imageKey(fileId: string, imageName: string): string {
+  return `${IMAGES_PREFIX}${fileId}/${imageName}`;
+}
+
+export function artifactKey(filename: string): string {
+  return `${ARTIFACTS_PREFIX}${filename}`;
+}
+
+export function manifestKey(conversionId: string): string {
+  return `${MANIFESTS_PREFIX}${conversionId}.json`;
+}
+
+function createStorage(): StorageDriver {
+  const driver = (process.env.STORAGE_DRIVER || 'local').toLowerCase();
+
+  if (driver === 's3') {
+    const bucket = process.env.S3_BUCKET;
+    if (!bucket) {
+      throw new Error('STORAGE_DRIVER=s3 requires S3_BUCKET');
+    }
+    return new S3Storage({
+      bucket,
+      region: process.env.S3_REGION || 'us-east-1',
+      endpoint: process.env.S3_ENDPOINT || undefined,
+      accessKeyId: process.env.S3_ACCESS_KEY_ID || undefined,
+      secretAccessKey: process.env.S3_SECRET_ACCESS_KEY || undefined,
+      forcePathStyle: process.env.S3_FORCE_PATH_STYLE === 'true' || !!process.env.S3_ENDPOINT,
+      prefix: process.env.S3_PREFIX || undefined,
+    });
+  }
+
+  if (driver !== 'local') {
+    throw new Error(`Unknown STORAGE_DRIVER: ${driver}`);
+  }
+
+  // Stored artifacts are only reachable through signed routes, so the default root is not web-served.
+  // Set STORAGE_LOCAL_PUBLIC_URL only if something serves the root directory statically.
+  const root = process.env.STORAGE_LOCAL_ROOT ||
+    (process.env.VERCEL ? '/tmp/file2md-storage' : path.join(process.cwd(), 'storage'));
+  return new LocalStorage({
+    root,
+    publicBaseUrl: process.env.STORAGE_LOCAL_PUBLIC_URL || undefined,
+  });
+}
+
+const globalForStorage = globalThis as unknown as { file2mdStorage?: StorageDriver };
+
+export function getStorage(): StorageDriver {
+  if (!globalForStorage.file2mdStorage) {
+    globalForStorage.file2mdStorage = createStorage();
+  }
+  return globalForStorage.file2mdStorage;
+}
+
+function scratchRoot(): string {
+  return process.env.SCRATCH_DIR ||
+    (process.env.VERCEL ? '/tmp/file2md-scratch' : path.join(process.cwd(), 'temp'));
+}
+
+// Local working directory for file2md, which needs real files on disk.
+// Everything in it is transient; results are persisted through getStorage().
+export async function getScratchDir(): Promise<string> {
+  const scratchDir = scratchRoot();
+
+  if (!existsSync(scratchDir)) {
+    await mkdir(scratchDir, { recursive: true });
+  }
+  return scratchDir;
+}
+
+// The scratch dir seen through the storage interface, so sweeps treat it like any other backend
+export function getScratchStorage(): StorageDriver {
+  return new LocalStorage({ root: scratchRoot() });
+}
@@ -0,0 +1,86 @@
+import assert from 'node:assert/strict';
+import { existsSync } from 'node:fs';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { LocalStorage } from './local';
+
+describe('LocalStorage', () => {
+  let root: string;
+  let storage: LocalStorage;
+
+  before(async () => {
+    root = await mkdtemp(path.join(tmpdir(), 'file2md-local-'));
+    storage = new LocalStorage({ root: path.join(root, 'storage') });
+  });
+
+  after(async () => {
+    await rm(root, { recursive: true, force: true });
+  });
+
+  it('puts and gets an object', async () => {
+    await storage.put('artifacts/a.md', '# Hello');
+    const body = await storage.get('artifacts/a.md');
+    assert.equal(body?.toString('utf-8'), '# Hello');
+  });
+
+  it('copies a file in and reports its size', async () => {
+    const filePath = path.join(root, 'image.png');
+    await writeFile(filePath, Buffer.alloc(2048, 7));
+    await storage.putFile('images/1/image.png', filePath);
+
+    const object = await storage.stat('images/1/image.png');
+    assert.equal(object?.key, 'images/1/image.png');
+    assert.equal(object?.size, 2048);
+  });
+
+  it('streams an object', async () => {
+    await storage.put('artifacts/stream.txt', 'streamed');
+    const streamed = await storage.stream('artifacts/stream.txt');
+    assert.ok(streamed);
+    assert.equal(streamed.size, 8);
+    assert.equal(await new Response(streamed.body).text(), 'streamed');
+  });
+
+  it('lists keys under a prefix, including partial names', async () => {
+    await storage.put('manifests/1.json', '{}');
+    await storage.put('manifests/2.json', '{}');
+    await storage.put('manifests/nested/3.json', '{}');
+    await storage.put('manifestsx/4.json', '{}');
+
+    const keys = (await storage.list('manifests/')).map(object => object.key).sort();
+    assert.deepEqual(keys, ['manifests/1.json', 'manifests/2.json', 'manifests/nested/3.json']);
+    const partial = (await storage.list('manifests/1')).map(object => object.key);
+    assert.deepEqual(partial, ['manifests/1.json']);
+    assert.deepEqual(await storage.list('missing/'), []);
+  });
+
+  it('deletes an object and the directories it leaves empty', async () => {
+    await storage.put('uploads/1/doc.pdf', 'pdf');
+    await storage.delete('uploads/1/doc.pdf');
+    assert.equal(await storage.get('uploads/1/doc.pdf'), null);
+    assert.equal(existsSync(path.join(root, 'storage', 'uploads')), false);
+    assert.equal(existsSync(path.join(root, 'storage')), true);
+  });
+
+  it('answers null for missing objects', async () => {
+    assert.equal(await storage.get('artifacts/missing.md'), null);
+    assert.equal(await storage.stream('artifacts/missing.md'), null);
+    assert.equal(await storage.stat('artifacts/missing.md'), null);
+    // Directories are not objects
+    assert.equal(await storage.stat('artifacts'), null);
+  });
+
+  it('refuses keys outside the root', async () => {
+    await assert.rejects(storage.put('../escaped.txt', 'x'), /Invalid storage key/);
+    await assert.rejects(storage.put('artifacts/../../escaped.txt', 'x'), /Invalid storage key/);
+    assert.equal(existsSync(path.join(root, 'escaped.txt')), false);
+  });
+
+  it('only has public URLs when the root is served', async () => {
+    assert.equal(await storage.publicUrl('artifacts/a.md'), null);
+    const served = new LocalStorage({ root: path.join(root, 'storage'), publicBaseUrl: 'https://cdn.example.com/files/' });
+    assert.equal(await served.publicUrl('artifacts/a b#1.md'), 'https://cdn.example.com/files/artifacts/a%20b%231.md');
+  });
+});
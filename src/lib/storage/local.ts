@@ -0,0 +1,118 @@
+import { createReadStream } from 'fs';
+import { copyFile, mkdir, readFile, readdir, rm, rmdir, stat, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import type { StorageDriver, StorageObject, StorageStream } from './types';
+
+export interface LocalStorageOptions {
+  root: string;
+  // Set when `root` is served statically (e.g. public/downloads -> /downloads)
+  publicBaseUrl?: string;
+}
+
+export class LocalStorage implements StorageDriver {
+  readonly name = 'local';
+  private root: string;
+  private publicBaseUrl?: string;
+
+  constructor(options: LocalStorageOptions) {
+    this.root = path.resolve(options.root);
+    this.publicBaseUrl = options.publicBaseUrl?.replace(/\/+$/, '');
+  }
+
+  // Map a key to a path inside root; refuses anything that would escape it
+  private resolve(key: string): string {
+    const resolved = path.resolve(this.root, key);
+    if (resolved !== this.root && !resolved.startsWith(this.root + path.sep)) {
+      throw new Error(`Invalid storage key: ${key}`);
+    }
+    return resolved;
+  }
+
+  async put(key: string, body: Buffer | string): Promise<void> {
+    const target = this.resolve(key);
+    await mkdir(path.dirname(target), { recursive: true });
+    await writeFile(target, body);
+  }
+
+  async putFile(key: string, filePath: string): Promise<void> {
+    const target = this.resolve(key);
+    await mkdir(path.dirname(target), { recursive: true });
+    await copyFile(filePath, target);
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      return await readFile(this.resolve(key));
+    } catch {
+      return null;
+    }
+  }
+
+  async stream(key: string): Promise<StorageStream | null> {
+    const info = await this.stat(key);
+    if (!info) return null;
+    const body = Readable.toWeb(createReadStream(this.resolve(key))) as ReadableStream<Uint8Array>;
+    return { body, size: info.size };
+  }
+
+  async stat(key: string): Promise<StorageObject | null> {
+    try {
+      const info = await stat(this.resolve(key));
+      if (!info.isFile()) return null;
+      return { key, size: info.size, lastModified: info.mtime };
+    } catch {
+      return null;
+    }
+  }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+
+    const walk = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch {
+        return;
+      }
+      for (const entry of entries) {
+        const fullPath = path.join(dir, entry.name);
+        if (entry.isDirectory()) {
+          await walk(fullPath);
+        } else if (entry.isFile()) {
+          const key = path.relative(this.root, fullPath).split(path.sep).join('/');
+          if (!key.startsWith(prefix)) continue;
+          const info = await stat(fullPath);
+          objects.push({ key, size: info.size, lastModified: info.mtime });
+        }
+      }
+    };
+
+    // Only walk the directory part of the prefix; the rest is matched per key
+    const prefixDir = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+    await walk(this.resolve(prefixDir));
+    return objects;
+  }
+
+  async delete(key: string): Promise<void> {
+    const target = this.resolve(key);
+    await rm(target, { force: true });
+
+    // Remove directories left empty, up to the storage root
+    let dir = path.dirname(target);
+    while (dir.startsWith(this.root + path.sep)) {
+      try {
+        await rmdir(dir);
+      } catch {
+        break;
+      }
+      dir = path.dirname(dir);
+    }
+  }
+
+  async publicUrl(key: string): Promise<string | null> {
+    if (!this.publicBaseUrl) return null;
+    return `${this.publicBaseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+}
@@ -0,0 +1,104 @@
+import { CreateBucketCommand, HeadBucketCommand, S3Client } from '@aws-sdk/client-s3';
+import assert from 'node:assert/strict';
+import { randomUUID } from 'node:crypto';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import { S3Storage } from './s3';
+
+// Integration test against a real S3-compatible service such as the MinIO from the README's
+// Storage section. Skipped when S3_TEST_ENDPOINT is not set.
+
+const endpoint = process.env.S3_TEST_ENDPOINT;
+const bucket = process.env.S3_TEST_BUCKET || 'file2md-test';
+const region = process.env.S3_TEST_REGION || 'us-east-1';
+const accessKeyId = process.env.S3_TEST_ACCESS_KEY_ID || 'minioadmin';
+const secretAccessKey = process.env.S3_TEST_SECRET_ACCESS_KEY || 'minioadmin';
+
+describe('S3Storage', { skip: endpoint ? false : 'S3_TEST_ENDPOINT is not set' }, () => {
+  // Every run writes under its own prefix, so runs never see each other's objects
+  const prefix = `test-${randomUUID()}`;
+  let storage: S3Storage;
+  let scratch: string;
+
+  before(async () => {
+    const client = new S3Client({ region, endpoint, forcePathStyle: true, credentials: { accessKeyId, secretAccessKey } });
+    try {
+      await client.send(new HeadBucketCommand({ Bucket: bucket }));
+    } catch {
+      await client.send(new CreateBucketCommand({ Bucket: bucket }));
+    }
+    client.destroy();
+
+    storage = new S3Storage({ bucket, region, endpoint, accessKeyId, secretAccessKey, forcePathStyle: true, prefix, presignTtlSeconds: 60 });
+    scratch = await mkdtemp(path.join(tmpdir(), 'file2md-s3-'));
+  });
+
+  after(async () => {
+    if (!storage) return;
+    for (const object of await storage.list('')) {
+      await storage.delete(object.key);
+    }
+    await rm(scratch, { recursive: true, force: true });
+  });
+
+  it('puts and gets an object', async () => {
+    await storage.put('artifacts/a.md', '# Hello', 'text/markdown');
+    const body = await storage.get('artifacts/a.md');
+    assert.equal(body?.toString('utf-8'), '# Hello');
+  });
+
+  it('uploads a file and reports its size', async () => {
+    const filePath = path.join(scratch, 'image.png');
+    await writeFile(filePath, Buffer.alloc(2048, 7));
+    await storage.putFile('images/1/image.png', filePath, 'image/png');
+
+    const object = await storage.stat('images/1/image.png');
+    assert.equal(object?.key, 'images/1/image.png');
+    assert.equal(object?.size, 2048);
+  });
+
+  it('streams an object', async () => {
+    await storage.put('artifacts/stream.txt', 'streamed');
+    const streamed = await storage.stream('artifacts/stream.txt');
+    assert.ok(streamed);
+    assert.equal(streamed.size, 8);
+    assert.equal(await new Response(streamed.body).text(), 'streamed');
+  });
+
+  it('lists keys under a prefix without the storage prefix', async () => {
+    await storage.put('manifests/1.json', '{}');
+    await storage.put('manifests/2.json', '{}');
+    const keys = (await storage.list('manifests/')).map(object => object.key).sort();
+    assert.deepEqual(keys, ['manifests/1.json', 'manifests/2.json']);
+  });
+
+  it('deletes an object', async () => {
+    await storage.put('uploads/1/doc.pdf', 'pdf');
+    await storage.delete('uploads/1/doc.pdf');
+    assert.equal(await storage.get('uploads/1/doc.pdf'), null);
+    assert.equal(await storage.stat('uploads/1/doc.pdf'), null);
+  });
+
+  it('answers null for missing objects', async () => {
+    assert.equal(await storage.get('artifacts/missing.md'), null);
+    assert.equal(await storage.stream('artifacts/missing.md'), null);
+    assert.equal(await storage.stat('artifacts/missing.md'), null);
+  });
+
+  it('hands out signed URLs that fetch the object', async () => {
+    await storage.put('artifacts/signed.md', 'signed body', 'text/markdown');
+    const url = await storage.publicUrl('artifacts/signed.md');
+    assert.ok(url);
+    assert.match(url, /X-Amz-Signature=/);
+
+    const response = await fetch(url);
+    assert.equal(response.status, 200);
+    assert.equal(await response.text(), 'signed body');
+
+    // Without the signature the bucket refuses the request
+    const unsigned = await fetch(url.split('?')[0]);
+    assert.equal(unsigned.status, 403);
+  });
+});
@@ -0,0 +1,153 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { createReadStream } from 'fs';
+import { stat } from 'fs/promises';
+import type { StorageDriver, StorageObject, StorageStream } from './types';
+
+export interface S3StorageOptions {
+  bucket: string;
+  region: string;
+  // Custom endpoint for S3-compatible services (MinIO, R2, ...)
+  endpoint?: string;
+  accessKeyId?: string;
+  secretAccessKey?: string;
+  // MinIO and most self-hosted services need path-style addressing
+  forcePathStyle?: boolean;
+  // Optional key prefix so several deployments can share a bucket
+  prefix?: string;
+  // Lifetime of presigned GET URLs handed to browsers
+  presignTtlSeconds?: number;
+}
+
+function isNotFound(error: unknown): boolean {
+  const e = error as { name?: string; $metadata?: { httpStatusCode?: number } };
+  return e?.name === 'NoSuchKey' || e?.name === 'NotFound' || e?.$metadata?.httpStatusCode === 404;
+}
+
+export class S3Storage implements StorageDriver {
+  readonly name = 's3';
+  private client: S3Client;
+  private bucket: string;
+  private prefix: string;
+  private presignTtlSeconds: number;
+
+  constructor(options: S3StorageOptions) {
+    this.bucket = options.bucket;
+    this.prefix = options.prefix ? options.prefix.replace(/\/+$/, '') + '/' : '';
+    this.presignTtlSeconds = options.presignTtlSeconds ?? 60 * 60;
+    this.client = new S3Client({
+      region: options.region,
+      endpoint: options.endpoint,
+      forcePathStyle: options.forcePathStyle,
+      credentials: options.accessKeyId && options.secretAccessKey
+        ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+        : undefined,
+    });
+  }
+
+  private objectKey(key: string): string {
+    return this.prefix + key;
+  }
+
+  async put(key: string, body: Buffer | string, contentType?: string): Promise<void> {
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Body: body,
+      ContentType: contentType,
+    }));
+  }
+
+  async putFile(key: string, filePath: string, contentType?: string): Promise<void> {
+    const { size } = await stat(filePath);
+    await this.client.send(new PutObjectCommand({
+      Bucket: this.bucket,
+      Key: this.objectKey(key),
+      Body: createReadStream(filePath),
+      ContentLength: size,
+      ContentType: contentType,
+    }));
+  }
+
+  async get(key: string): Promise<Buffer | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      if (!response.Body) return null;
+      return Buffer.from(await response.Body.transformToByteArray());
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async stream(key: string): Promise<StorageStream | null> {
+    try {
+      const response = await this.client.send(new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      if (!response.Body) return null;
+      return {
+        body: response.Body.transformToWebStream() as ReadableStream<Uint8Array>,
+        size: response.ContentLength ?? 0,
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async stat(key: string): Promise<StorageObject | null> {
+    try {
+      const response = await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+      return {
+        key,
+        size: response.ContentLength ?? 0,
+        lastModified: response.LastModified ?? new Date(0),
+      };
+    } catch (error) {
+      if (isNotFound(error)) return null;
+      throw error;
+    }
+  }
+
+  async list(prefix: string): Promise<StorageObject[]> {
+    const objects: StorageObject[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(new ListObjectsV2Command({
+        Bucket: this.bucket,
+        Prefix: this.objectKey(prefix),
+        ContinuationToken: continuationToken,
+      }));
+      for (const item of response.Contents ?? []) {
+        if (!item.Key) continue;
+        objects.push({
+          key: item.Key.slice(this.prefix.length),
+          size: item.Size ?? 0,
+          lastModified: item.LastModified ?? new Date(0),
+        });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return objects;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(new DeleteObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }));
+  }
+
+  async publicUrl(key: string): Promise<string | null> {
+    return getSignedUrl(
+      this.client,
+      new GetObjectCommand({ Bucket: this.bucket, Key: this.objectKey(key) }),
+      { expiresIn: this.presignTtlSeconds }
+    );
+  }
+}
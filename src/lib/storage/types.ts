@@ -0,0 +1,24 @@
+export interface StorageObject {
+  key: string;
+  size: number;
+  lastModified: Date;
+}
+
+export interface StorageStream {
+  body: ReadableStream<Uint8Array>;
+  size: number;
+}
+
+// Keys are '/'-separated paths such as `artifacts/report__123.zip` or `images/<fileId>/img_1.png`
+export interface StorageDriver {
+  readonly name: string;
+  put(key: string, body: Buffer | string, contentType?: string): Promise<void>;
+  putFile(key: string, filePath: string, contentType?: string): Promise<void>;
+  get(key: string): Promise<Buffer | null>;
+  stream(key: string): Promise<StorageStream | null>;
+  stat(key: string): Promise<StorageObject | null>;
+  list(prefix: string): Promise<StorageObject[]>;
+  delete(key: string): Promise<void>;
+  // URL a browser can fetch the object from directly, or null when the driver cannot expose one
+  publicUrl(key: string): Promise<string | null>;
+}
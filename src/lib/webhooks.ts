@@ -0,0 +1,263 @@
+import { randomUUID } from 'crypto';
+import http from 'http';
+import https from 'https';
+import { getApiKeyName } from '@/lib/auth';
+import type { ConversionResult } from '@/lib/convert';
+import { ApiError, getRequestId, toApiError } from '@/lib/errors';
+import { envInt } from '@/lib/numbers';
+import { Allowlist, assertUrlAllowed, guardedLookup, parseAllowlist } from '@/lib/remote';
+import type { WebhookAttempt, WebhookDelivery, WebhookPayload } from '@/lib/schemas';
+import { SIGNATURE_HEADER, signPayload } from '@/lib/signatures';
+
+export type { WebhookDelivery, WebhookPayload } from '@/lib/schemas';
+
+// Attempts per delivery, the first one included; override with WEBHOOK_MAX_ATTEMPTS
+const DEFAULT_MAX_ATTEMPTS = 6;
+// Wait before the first retry, doubled for every retry after it; override with WEBHOOK_RETRY_BASE_SECONDS
+const DEFAULT_RETRY_BASE_SECONDS = 10;
+// How long one attempt may take; override with WEBHOOK_TIMEOUT_SECONDS
+const DEFAULT_TIMEOUT_SECONDS = 10;
+// Finished deliveries are forgotten after this long
+const DELIVERY_RETENTION_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+// Where and for whom to report a conversion, captured from the request that asked for it
+export interface WebhookTarget {
+  callbackUrl: string;
+  // Relative download links are made absolute against the origin the request came in on
+  origin: string;
+  requestId?: string;
+  // API key the request was made with; only it and admin keys see the full delivery log
+  owner?: string;
+}
+
+export type ConversionOutcome =
+  | { name: string; result: ConversionResult }
+  | { name: string; error: ApiError };
+
+interface WebhookSettings {
+  secret: string;
+  maxAttempts: number;
+  retryBaseMs: number;
+  timeoutMs: number;
+  allowlist: Allowlist;
+}
+
+// Callbacks go through the same private-address checks as URL fetches; WEBHOOK_ALLOWLIST lets
+// receivers on localhost or the internal network through
+function getAllowlist(): Allowlist {
+  return parseAllowlist(process.env.WEBHOOK_ALLOWLIST);
+}
+
+// The `callbackUrl` form field. Webhooks are off until WEBHOOK_SECRET is set, since receivers
+// could not tell unsigned callbacks from forged ones.
+export function readCallback(request: Request, formData: FormData): WebhookTarget | null {
+  const value = formData.get('callbackUrl');
+  if (typeof value !== 'string' || value.trim() === '') return null;
+  if (!process.env.WEBHOOK_SECRET) {
+    throw new ApiError('INVALID_REQUEST', 'Webhooks are disabled on this server; callbackUrl cannot be used');
+  }
+
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    throw new ApiError('INVALID_REQUEST', 'The callbackUrl is not a valid URL');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new ApiError('INVALID_REQUEST', 'The callbackUrl must be an http or https URL');
+  }
+  // Host names are checked again on every attempt, when they are resolved
+  assertUrlAllowed(url, getAllowlist());
+
+  return {
+    callbackUrl: url.href,
+    origin: new URL(request.url).origin,
+    requestId: getRequestId(request),
+    owner: getApiKeyName(request),
+  };
+}
+
+export function webhookUrlFor(conversionId: string): string {
+  return `/api/webhooks/${conversionId}`;
+}
+
+function absoluteUrl(downloadUrl: string, origin: string): string | undefined {
+  // data: URLs can be megabytes long; receivers fetch the result with the conversion's ID instead
+  if (downloadUrl.startsWith('data:')) return undefined;
+  return new URL(downloadUrl, origin).href;
+}
+
+function buildPayload(id: string, conversionId: string, target: WebhookTarget, outcome: ConversionOutcome): WebhookPayload {
+  const common = {
+    id,
+    conversionId,
+    createdAt: new Date().toISOString(),
+    requestId: target.requestId,
+    name: outcome.name,
+  };
+  if ('result' in outcome) {
+    const { result } = outcome;
+    return {
+      ...common,
+      event: 'conversion.succeeded',
+      filename: result.filename,
+      detectedFormat: result.detectedFormat,
+      outputFormat: result.outputFormat,
+      downloadUrl: absoluteUrl(result.downloadUrl, target.origin),
+      expiresAt: result.expiresAt,
+      stats: result.stats,
+    };
+  }
+  return { ...common, event: 'conversion.failed', error: outcome.error.message, code: outcome.error.code };
+}
+
+// Resolves with the response status; the response body is ignored and redirects are not followed
+function post(url: URL, body: string, headers: Record<string, string>, settings: WebhookSettings): Promise<number> {
+  assertUrlAllowed(url, settings.allowlist);
+
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.request(url, {
+      method: 'POST',
+      signal: AbortSignal.timeout(settings.timeoutMs),
+      lookup: guardedLookup(settings.allowlist),
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+    }, response => {
+      response.on('error', () => {});
+      response.resume();
+      resolve(response.statusCode ?? 0);
+    });
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+function describeFailure(error: unknown, timeoutMs: number): string {
+  if (error instanceof ApiError) return error.message;
+  const { name, code } = error as NodeJS.ErrnoException;
+  if (name === 'AbortError' || name === 'TimeoutError') {
+    return `No response within ${timeoutMs / 1000} seconds`;
+  }
+  return `The request failed${code ? ` (${code})` : ''}`;
+}
+
+interface TrackedDelivery {
+  delivery: WebhookDelivery;
+  body: string;
+  owner?: string;
+  finishedAt?: number;
+}
+
+// The delivery log as other callers see it: the callback URL's path and query may carry
+// tokens, so only its origin is shown
+export function redactDelivery(delivery: WebhookDelivery): WebhookDelivery {
+  return { ...delivery, callbackUrl: new URL(delivery.callbackUrl).origin };
+}
+
+class WebhookDispatcher {
+  // Keyed by conversion ID; a conversion finishes once, so it has at most one delivery
+  private deliveries = new Map<string, TrackedDelivery>();
+
+  constructor(private settings: WebhookSettings) {}
+
+  send(conversionId: string, target: WebhookTarget, outcome: ConversionOutcome): WebhookDelivery {
+    this.prune();
+    const id = randomUUID();
+    const payload = buildPayload(id, conversionId, target, outcome);
+    const tracked: TrackedDelivery = {
+      delivery: {
+        id,
+        conversionId,
+        event: payload.event,
+        callbackUrl: target.callbackUrl,
+        status: 'pending',
+        createdAt: payload.createdAt,
+        attempts: [],
+      },
+      body: JSON.stringify(payload),
+      owner: target.owner,
+    };
+    this.deliveries.set(conversionId, tracked);
+    void this.attempt(tracked);
+    return tracked.delivery;
+  }
+
+  get(conversionId: string): { delivery: WebhookDelivery; owner?: string } | undefined {
+    const tracked = this.deliveries.get(conversionId);
+    return tracked && { delivery: tracked.delivery, owner: tracked.owner };
+  }
+
+  private async attempt(tracked: TrackedDelivery): Promise<void> {
+    const { delivery, body } = tracked;
+    const started = Date.now();
+    const record: WebhookAttempt = { attempt: delivery.attempts.length + 1, at: new Date(started).toISOString(), durationMs: 0 };
+    delivery.nextAttemptAt = undefined;
+
+    try {
+      // Signed again on every attempt, so retries stay within the receiver's timestamp tolerance
+      record.statusCode = await post(new URL(delivery.callbackUrl), body, {
+        'Content-Type': 'application/json',
+        'User-Agent': 'file2markdown',
+        'X-File2md-Event': delivery.event,
+        'X-File2md-Delivery': delivery.id,
+        [SIGNATURE_HEADER]: signPayload(body, this.settings.secret),
+      }, this.settings);
+      if (record.statusCode < 200 || record.statusCode >= 300) {
+        record.error = `The receiver answered with HTTP ${record.statusCode}`;
+      }
+    } catch (error) {
+      record.error = describeFailure(error, this.settings.timeoutMs);
+    }
+    record.durationMs = Date.now() - started;
+    delivery.attempts.push(record);
+
+    if (!record.error || record.attempt >= this.settings.maxAttempts) {
+      delivery.status = record.error ? 'failed' : 'delivered';
+      tracked.finishedAt = Date.now();
+      return;
+    }
+    const delay = this.settings.retryBaseMs * 2 ** (record.attempt - 1);
+    delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+    // Pending retries must not keep the process alive on shutdown
+    setTimeout(() => void this.attempt(tracked), delay).unref();
+  }
+
+  private prune(): void {
+    const cutoff = Date.now() - DELIVERY_RETENTION_MS;
+    for (const [id, tracked] of this.deliveries) {
+      if (tracked.finishedAt && tracked.finishedAt < cutoff) {
+        this.deliveries.delete(id);
+      }
+    }
+  }
+}
+
+// Route handlers may be bundled separately; keep one delivery log per server process
+const globalForWebhooks = globalThis as unknown as { file2mdWebhooks?: WebhookDispatcher };
+
+export function getWebhookDispatcher(): WebhookDispatcher {
+  if (!globalForWebhooks.file2mdWebhooks) {
+    globalForWebhooks.file2mdWebhooks = new WebhookDispatcher({
+      secret: process.env.WEBHOOK_SECRET ?? '',
+      maxAttempts: envInt('WEBHOOK_MAX_ATTEMPTS', DEFAULT_MAX_ATTEMPTS, 1),
+      retryBaseMs: envInt('WEBHOOK_RETRY_BASE_SECONDS', DEFAULT_RETRY_BASE_SECONDS, 1) * 1000,
+      timeoutMs: envInt('WEBHOOK_TIMEOUT_SECONDS', DEFAULT_TIMEOUT_SECONDS, 1) * 1000,
+      allowlist: getAllowlist(),
+    });
+  }
+  return globalForWebhooks.file2mdWebhooks;
+}
+
+// Post how a conversion ended to its callback in the background; returns the delivery log's URL
+export function notifyCompletion(target: WebhookTarget, outcome: ConversionOutcome, conversionId: string = randomUUID()): string {
+  getWebhookDispatcher().send(conversionId, target, outcome);
+  return webhookUrlFor(conversionId);
+}
+
+// notifyCompletion() for a failed conversion; the returned error points at the delivery log
+export function notifyFailure(target: WebhookTarget, name: string, error: unknown, conversionId?: string): ApiError {
+  const apiError = toApiError(error, target.requestId);
+  const webhookUrl = notifyCompletion(target, { name, error: apiError }, conversionId);
+  apiError.details = { ...apiError.details, webhookUrl };
+  return apiError;
+}
@@ -0,0 +1,171 @@
+import { fork } from 'child_process';
+import path from 'path';
+import type { File2mdResult } from '@/lib/convert';
+import type { ConverterInput, DetectedFormat } from '@/lib/converters/types';
+import { ApiError, ErrorCode } from '@/lib/errors';
+import { envInt } from '@/lib/numbers';
+import type { PartSelection } from '@/lib/parts';
+
+export interface WorkerLimits {
+  // Wall-clock limit for one conversion; 0 disables it
+  timeoutMs: number;
+  // V8 heap cap of the worker process in MB; 0 keeps Node's default
+  maxMemoryMb: number;
+}
+
+// Options passed through to file2md's convert()
+export interface File2mdOptions {
+  imageDir: string;
+  outputDir: string;
+  preserveLayout: boolean;
+  extractImages: boolean;
+  extractCharts: boolean;
+}
+
+type WorkerMessage =
+  | { ok: true; result: File2mdResult }
+  | { ok: false; error: { name: string; message: string; code?: ErrorCode } };
+
+// Override with CONVERSION_TIMEOUT_SECONDS
+const DEFAULT_TIMEOUT_SECONDS = 120;
+// Override with CONVERSION_MAX_MEMORY_MB
+const DEFAULT_MAX_MEMORY_MB = 1024;
+
+// Plain JS run by Node directly, outside the Next.js bundle
+const FILE2MD_WORKER_PATH = path.join(process.cwd(), 'src', 'workers', 'convert-worker.mjs');
+// Run through tsx, which maps the @/ imports with tsconfig.json from the working directory
+const CONVERTER_WORKER_PATH = path.join(process.cwd(), 'src', 'workers', 'converter-worker.ts');
+
+export function getWorkerLimits(): WorkerLimits {
+  return {
+    timeoutMs: envInt('CONVERSION_TIMEOUT_SECONDS', DEFAULT_TIMEOUT_SECONDS) * 1000,
+    maxMemoryMb: envInt('CONVERSION_MAX_MEMORY_MB', DEFAULT_MAX_MEMORY_MB),
+  };
+}
+
+function timeoutError(limits: WorkerLimits): ApiError {
+  return new ApiError('TIMEOUT', `The conversion took longer than ${limits.timeoutMs / 1000} seconds and was stopped`);
+}
+
+function cancelledError(): ApiError {
+  return new ApiError('CANCELLED', 'The conversion was cancelled');
+}
+
+function runWorker(
+  workerPath: string,
+  execArgv: string[],
+  message: object,
+  signal?: AbortSignal
+): Promise<File2mdResult> {
+  if (signal?.aborted) {
+    return Promise.reject(cancelledError());
+  }
+
+  const limits = getWorkerLimits();
+  return new Promise((resolve, reject) => {
+    const child = fork(workerPath, [], {
+      execArgv: [...execArgv, ...(limits.maxMemoryMb > 0 ? [`--max-old-space-size=${limits.maxMemoryMb}`] : [])],
+      // Structured clone keeps Buffers in the result intact
+      serialization: 'advanced',
+      stdio: ['ignore', 'inherit', 'inherit', 'ipc'],
+    });
+
+    let settled = false;
+    const finish = (error: Error | null, result?: File2mdResult) => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+      if (child.exitCode === null && child.signalCode === null) {
+        child.kill('SIGKILL');
+      }
+      if (error) reject(error);
+      else resolve(result as File2mdResult);
+    };
+
+    const timer = limits.timeoutMs > 0
+      ? setTimeout(() => finish(timeoutError(limits)), limits.timeoutMs)
+      : undefined;
+    const onAbort = () => finish(cancelledError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    child.on('message', (message: WorkerMessage) => {
+      if (message.ok) {
+        finish(null, message.result);
+      } else if (message.error.code) {
+        // The built-in converters throw ApiErrors meant for the client
+        finish(new ApiError(message.error.code, message.error.message));
+      } else {
+        // Rebuilt as a plain Error so toApiError() can classify file2md's message
+        const error = new Error(message.error.message);
+        error.name = message.error.name;
+        finish(error);
+      }
+    });
+    child.on('error', error => finish(error));
+    child.on('exit', (code, exitSignal) => {
+      // V8 aborts the process when it runs out of heap
+      if (exitSignal === 'SIGABRT' || code === 134) {
+        finish(new ApiError('MEMORY_LIMIT', `The conversion needed more than ${limits.maxMemoryMb}MB of memory and was stopped`));
+      } else {
+        finish(new Error(`Conversion worker exited unexpectedly (${exitSignal ?? `code ${code}`})`));
+      }
+    });
+
+    child.send(message);
+  });
+}
+
+// Run file2md in a child process. The process is killed when the timeout passes, when
+// `signal` aborts (the client went away) and after any other failure, so it never outlives
+// the request. Files it wrote are left for the caller's cleanup. With a `selection`, the
+// pages, slides or sheets it leaves out are blanked in the file before file2md reads it.
+export function convertInWorker(
+  filePath: string,
+  options: File2mdOptions,
+  signal?: AbortSignal,
+  selection?: PartSelection
+): Promise<File2mdResult> {
+  // Blanking unselected parts (src/lib/partfiles.ts) is TypeScript, so only then is tsx loaded
+  return runWorker(FILE2MD_WORKER_PATH, selection ? ['--import', 'tsx'] : [], { filePath, options, selection }, signal);
+}
+
+// Run one of the registry's built-in converters (HTML, text, CSV/TSV, ODT) the same way.
+// They are TypeScript, so the worker is loaded through tsx.
+export function convertBuiltInInWorker(
+  format: DetectedFormat,
+  input: Pick<ConverterInput, 'filePath' | 'imageDir' | 'options'>,
+  signal?: AbortSignal
+): Promise<File2mdResult> {
+  return runWorker(CONVERTER_WORKER_PATH, ['--import', 'tsx'], { format, ...input }, signal);
+}
+
+// Converters added with registerConverter() run in the server process, where nothing can
+// kill them. They get the worker's time limit as a deadline and call `checkpoint` between
+// steps, which throws once the time is up or `signal` aborted; the returned promise settles
+// at that point even if the converter is still busy.
+export function runWithLimits<T>(run: (checkpoint: () => void) => Promise<T>, signal?: AbortSignal): Promise<T> {
+  const limits = getWorkerLimits();
+  const deadline = limits.timeoutMs > 0 ? Date.now() + limits.timeoutMs : Infinity;
+  const checkpoint = () => {
+    if (signal?.aborted) throw cancelledError();
+    if (Date.now() > deadline) throw timeoutError(limits);
+  };
+
+  return new Promise((resolve, reject) => {
+    const timer = limits.timeoutMs > 0 ? setTimeout(() => reject(timeoutError(limits)), limits.timeoutMs) : undefined;
+    const onAbort = () => reject(cancelledError());
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    Promise.resolve()
+      .then(() => {
+        checkpoint();
+        return run(checkpoint);
+      })
+      .then(resolve, reject)
+      .finally(() => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+      });
+  });
+}
@@ -0,0 +1,28 @@
+// Runs a single file2md conversion in its own process, so a parser that hangs or runs away
+// with memory can be killed without taking the server down. Started by src/lib/worker.ts
+// with child_process.fork(); receives { filePath, options, selection } and answers over IPC.
+import { convert } from 'file2md';
+
+// The server went away (or killed the IPC channel); nobody is waiting for the result
+process.on('disconnect', () => process.exit(1));
+
+process.once('message', async ({ filePath, options, selection }) => {
+  let message;
+  try {
+    if (selection) {
+      // Only forked with tsx when there is a selection, see convertInWorker()
+      const { blankUnselectedParts } = await import('../lib/partfiles.ts');
+      await blankUnselectedParts(filePath, selection);
+    }
+    message = { ok: true, result: await convert(filePath, options) };
+  } catch (error) {
+    message = {
+      ok: false,
+      error: {
+        name: error instanceof Error ? error.name : 'Error',
+        message: error instanceof Error ? error.message : String(error),
+      },
+    };
+  }
+  process.send(message, () => process.exit(0));
+});
@@ -0,0 +1,41 @@
+// Runs one of the registry's built-in converters in its own process, like convert-worker.mjs
+// does for file2md, so a huge or deeply nested document cannot block or exhaust the server.
+// Started by src/lib/worker.ts through tsx; receives { format, filePath, imageDir, options }
+// and answers over IPC.
+import { readFile } from 'fs/promises';
+import type { ConvertOptions } from '@/lib/convert';
+import { getConverter } from '@/lib/converters';
+import { ApiError } from '@/lib/errors';
+
+interface ConverterJob {
+  format: string;
+  filePath: string;
+  imageDir: string;
+  options: ConvertOptions;
+}
+
+// The server went away (or killed the IPC channel); nobody is waiting for the result
+process.on('disconnect', () => process.exit(1));
+
+process.once('message', async ({ format, filePath, imageDir, options }: ConverterJob) => {
+  let message;
+  try {
+    const converter = getConverter(format);
+    if (!converter) {
+      throw new Error(`No built-in converter for ${format}`);
+    }
+    // The server enforces the limits by killing this process, so there is nothing to check
+    const result = await converter.convert({ filePath, buffer: await readFile(filePath), imageDir, options, checkpoint: () => {} });
+    message = { ok: true, result };
+  } catch (error) {
+    message = {
+      ok: false,
+      error: {
+        name: error instanceof Error ? error.name : 'Error',
+        message: error instanceof Error ? error.message : String(error),
+        code: error instanceof ApiError ? error.code : undefined,
+      },
+    };
+  }
+  process.send?.(message, () => process.exit(0));
+});